@@ -15,6 +15,47 @@ export function activate(context: vscode.ExtensionContext) {
         });
     }));
 
+    context.subscriptions.push(vscode.commands.registerCommand('extension.hgdb-vscode.runToTime', async () => {
+        const value = await vscode.window.showInputBox({
+            placeHolder: "Simulation time",
+            prompt: "Run the simulation until the given time",
+            validateInput: value => isNormalInteger(value) ? undefined : "Simulation time has to be a non-negative integer"
+        });
+        if (value !== undefined) {
+            await sendCustomRequest('runToTime', {time: Number(value)});
+        }
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('extension.hgdb-vscode.stepCycles', async () => {
+        const value = await vscode.window.showInputBox({
+            placeHolder: "Number of clock cycles",
+            prompt: "Advance the simulation by the given number of clock cycles",
+            value: "1",
+            validateInput: value => isNormalInteger(value) && Number(value) > 0 ? undefined :
+                "Number of cycles has to be a positive integer"
+        });
+        if (value !== undefined) {
+            await sendCustomRequest('stepCycles', {cycles: Number(value)});
+        }
+    }));
+
+    // context menu of the Variables view
+    const formats: Array<[string, string]> = [["displayAsHex", "hex"], ["displayAsBinary", "binary"],
+        ["displayAsDecimal", "decimal"], ["displayAsSigned", "signed"]];
+    for (const [name, format] of formats) {
+        context.subscriptions.push(vscode.commands.registerCommand(`extension.hgdb-vscode.${name}`, async arg => {
+            if (!arg || !arg.variable || !arg.container) {
+                return;
+            }
+            // the container tells the debugger which instance and scope the variable belongs to
+            await sendCustomRequest('setValueFormat', {
+                name: arg.variable.name,
+                variablesReference: arg.container.variablesReference,
+                format: format
+            });
+        }));
+    }
+
     // register a configuration provider for 'hgdb' debug type
     const provider = new HGDBConfigurationProvider();
     context.subscriptions.push(vscode.debug.registerDebugConfigurationProvider('hgdb', provider));
@@ -30,6 +71,24 @@ export function deactivate() {
     // nothing to do
 }
 
+function isNormalInteger(str: string) {
+    const n = Math.floor(Number(str));
+    return n !== Infinity && String(n) === str && n >= 0;
+}
+
+async function sendCustomRequest(command: string, args: any) {
+    const session = vscode.debug.activeDebugSession;
+    if (!session || session.type !== 'hgdb') {
+        vscode.window.showErrorMessage("No active hgdb debug session");
+        return;
+    }
+    try {
+        await session.customRequest(command, args);
+    } catch (error) {
+        vscode.window.showErrorMessage(error.message);
+    }
+}
+
 
 class HGDBConfigurationProvider implements vscode.DebugConfigurationProvider {
 
@@ -90,7 +149,7 @@ class HGDBConfigurationProvider implements vscode.DebugConfigurationProvider {
                 prompt: "HGDB runtime port number"
             }).then((value) => {
                 if (value !== undefined) {
-                    if (HGDBConfigurationProvider.isNormalInteger(value)) {
+                    if (isNormalInteger(value)) {
                         config.runtimePort = Number(value);
                     } else {
                         vscode.window.showWarningMessage(`${value} is not a valid port number. Using default instead`);
@@ -102,11 +161,6 @@ class HGDBConfigurationProvider implements vscode.DebugConfigurationProvider {
 
         return config;
     }
-
-    private static isNormalInteger(str: string) {
-        const n = Math.floor(Number(str));
-        return n !== Infinity && String(n) === str && n >= 0;
-    }
 }
 
 class HGDBDebugAdapterDescriptorFactory implements vscode.DebugAdapterDescriptorFactory {
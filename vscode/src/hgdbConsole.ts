@@ -0,0 +1,230 @@
+import {basename} from 'path';
+import {HGDBRuntime, REPLCommands} from './hgdbRuntime';
+
+
+export interface ConsoleResult {
+    output: string;
+    // the command resumed the simulation
+    resumed: boolean;
+}
+
+// gdb style commands. there are no single letter aliases since they clash with signal names
+const Commands = ["info", "break", "delete", "watch", "thread", "continue", "step", "print", "help"];
+
+export const ConsoleCommands = Commands.concat(REPLCommands);
+
+const HelpText = `Commands:
+  info breakpoints|watchpoints|threads|time|status
+  break [file:]line [if cond]    insert a breakpoint
+  delete N                       remove breakpoint N
+  delete wN                      remove watchpoint N set in the Debug Console
+  watch var [if cond]            watch a variable in the selected thread
+  thread [N]                     select the instance used for evaluation
+  continue                       continue the simulation
+  step                           step to the next breakpoint location
+  print expr                     evaluate an expression, e.g. a signal named like a command
+  run-to-time T                  run the simulation until time T
+  step-cycles [N]                advance the simulation by N clock cycles
+  scope-breakpoint N             evaluate in the scope of breakpoint N
+  scope-namespace N              evaluate in namespace N
+  clear                          reset the evaluation scope
+Anything else is evaluated as an expression`;
+
+/**
+ * Debug Console command language shared with the hgdb console debugger
+ */
+export class HGDBConsole {
+
+    private readonly _runtime: HGDBRuntime;
+    // instance selected by the thread command
+    private _threadID: number | undefined;
+
+    constructor(runtime: HGDBRuntime) {
+        this._runtime = runtime;
+    }
+
+    /**
+     * Whether the expression is a command rather than an expression for the simulator
+     */
+    public static isCommand(expression: string) {
+        const name = expression.trim().split(/\s/)[0];
+        return ConsoleCommands.indexOf(name) >= 0;
+    }
+
+    public async execute(expression: string): Promise<ConsoleResult> {
+        const trimmed = expression.trim();
+        const pos = trimmed.search(/\s/);
+        const name = pos < 0 ? trimmed : trimmed.substr(0, pos);
+        const args = pos < 0 ? "" : trimmed.substr(pos).trim();
+        let output: string;
+        switch (name) {
+            case "info":
+                output = await this.info(args);
+                break;
+            case "break":
+                output = await this.insertBreakpoint(args);
+                break;
+            case "delete":
+                output = await this.delete(args);
+                break;
+            case "watch":
+                output = await this.watch(args);
+                break;
+            case "thread":
+                output = this.thread(args);
+                break;
+            case "continue":
+                await this._runtime.continue();
+                return {output: "", resumed: true};
+            case "step":
+                await this._runtime.step();
+                return {output: "", resumed: true};
+            case "print":
+                // never a command, even if the signal is named like one
+                output = await this._runtime.evaluateREPLScope(args);
+                break;
+            case "help":
+                output = HelpText;
+                break;
+            default:
+                output = await this._runtime.handleREPL(expression);
+                break;
+        }
+        return {output: output, resumed: false};
+    }
+
+    private async info(args: string) {
+        switch (args) {
+            case "breakpoints":
+            case "breakpoint":
+            case "b": {
+                const bps = this._runtime.getActiveBreakpoints();
+                if (bps.length === 0) {
+                    return "No breakpoints";
+                }
+                return bps.map(([bp, options]) => {
+                    let line = `${bp.id}\t${bp.filename}:${bp.line_num}`;
+                    if (bp.column_num > 0) {
+                        line += `:${bp.column_num}`;
+                    }
+                    if (options.condition) {
+                        line += ` if ${options.condition}`;
+                    }
+                    if (options.hitCondition) {
+                        line += ` (hit ${options.hitCondition})`;
+                    }
+                    if (options.logMessage !== undefined) {
+                        line += ` log "${options.logMessage}"`;
+                    }
+                    return line;
+                }).join("\n");
+            }
+            case "watchpoints":
+            case "watchpoint":
+            case "w": {
+                const watchpoints = this._runtime.getWatchpoints();
+                if (watchpoints.length === 0) {
+                    return "No watchpoints";
+                }
+                return watchpoints.map(w => {
+                    let line = `${w.fromConsole ? "w" + w.number : "-"}\t${w.instance}.${w.var}`;
+                    if (w.condition) {
+                        line += ` if ${w.condition}`;
+                    }
+                    if (!w.resolved) {
+                        line += " (pending)";
+                    }
+                    return line;
+                }).join("\n");
+            }
+            case "threads": {
+                const names = this._runtime.getCurrentGeneratorNames();
+                if (names.size === 0) {
+                    return "No threads";
+                }
+                const selected = this.selectedThread();
+                let lines = new Array<string>();
+                names.forEach((name, instance_id) => {
+                    lines.push(`${instance_id === selected ? "*" : " "} ${instance_id}\t${name}`);
+                });
+                return lines.join("\n");
+            }
+            case "time":
+                return this._runtime.getCurrentTime().toString();
+            case "status":
+                return JSON.stringify(await this._runtime.getSimulatorStatus("status"), null, 2);
+            default:
+                return "Usage: info breakpoints|watchpoints|threads|time|status";
+        }
+    }
+
+    private async insertBreakpoint(args: string) {
+        const match = /^(?:(.+):)?(\d+)(?:\s+if\s+(.+))?$/.exec(args);
+        if (!match) {
+            return "Usage: break [file:]line [if cond]";
+        }
+        const filename = match[1] ? match[1] : this._runtime.currentFilename();
+        if (!filename) {
+            return "No current file. Use break file:line";
+        }
+        const line = Number.parseInt(match[2]);
+        const bps = await this._runtime.addBreakpoint(filename, line, match[3]);
+        if (bps.length === 0) {
+            return `No breakpoint location at ${basename(filename)}:${line}`;
+        }
+        return bps.map(bp => `Breakpoint ${bp.id} at ${basename(bp.filename)}:${bp.line_num}`).join("\n");
+    }
+
+    private async delete(args: string) {
+        const match = /^(w)?(\d+)$/.exec(args);
+        if (!match) {
+            return "Usage: delete N or delete wN";
+        }
+        const number = Number.parseInt(match[2]);
+        if (match[1]) {
+            return await this._runtime.removeWatchpoint(number) ? "" : `No watchpoint w${number} set in the Debug Console`;
+        }
+        return await this._runtime.removeBreakpoint(number) ? "" : `No breakpoint number ${number}`;
+    }
+
+    private async watch(args: string) {
+        const match = /^(\S+)(?:\s+if\s+(.+))?$/.exec(args);
+        if (!match) {
+            return "Usage: watch var [if cond]";
+        }
+        const instance_id = this.selectedThread();
+        if (instance_id === undefined) {
+            return "Not stopped at any instance";
+        }
+        const status = await this._runtime.addWatchpoint(instance_id, match[1], match[2]);
+        if (!status.verified) {
+            return status.message ? status.message : `Unable to watch ${match[1]}`;
+        }
+        return `Watching ${match[1]}`;
+    }
+
+    private thread(args: string) {
+        const names = this._runtime.getCurrentGeneratorNames();
+        if (args.length === 0) {
+            const selected = this.selectedThread();
+            return selected === undefined ? "No threads" : `Current thread is ${selected} (${names.get(selected)})`;
+        }
+        const instance_id = Number(args);
+        if (!Number.isInteger(instance_id) || !names.has(instance_id)) {
+            return `Invalid thread ${args}. Use info threads to list the threads`;
+        }
+        this._threadID = instance_id;
+        this._runtime.setREPLScope(instance_id);
+        return `Switching to thread ${instance_id} (${names.get(instance_id)})`;
+    }
+
+    private selectedThread() {
+        const names = this._runtime.getCurrentGeneratorNames();
+        if (this._threadID !== undefined && names.has(this._threadID)) {
+            return this._threadID;
+        }
+        // default to the first instance of the frame
+        const first = names.keys().next();
+        return first.done ? undefined : first.value;
+    }
+}
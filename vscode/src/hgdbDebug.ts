@@ -1,11 +1,14 @@
 import {
     LoggingDebugSession,
     InitializedEvent, TerminatedEvent, StoppedEvent, BreakpointEvent, OutputEvent,
-    Thread, StackFrame, Source, Handles, Breakpoint, ThreadEvent, Scope
+    Thread, StackFrame, Source, Handles, Breakpoint, ThreadEvent, Scope, ContinuedEvent, InvalidatedEvent
 } from 'vscode-debugadapter';
 import {DebugProtocol} from 'vscode-debugprotocol';
 import {basename} from 'path';
-import {HGDBRuntime, HGDBBreakpoint} from './hgdbRuntime';
+import {HGDBRuntime, HGDBBreakpoint, HGDBDataBreakpointStatus} from './hgdbRuntime';
+import {HGDBConsole, ConsoleCommands, ConsoleResult} from './hgdbConsole';
+import {PathMapping, ValueFormat, ValueFormats, completeName, convertToDot, formatTypedValue, typeName} from './util';
+import {BreakpointLocation, ExceptionType, ExceptionTypes, StepInTarget, TypeInfo} from './hgdbProtocol';
 import * as vscode from 'vscode';
 import {abort} from 'process';
 import * as path from "path";
@@ -13,15 +16,40 @@ import * as glob from 'glob';
 
 const {Subject} = require('await-notify');
 
-interface LaunchRequestArguments extends DebugProtocol.LaunchRequestArguments {
+// arguments shared by launch and attach
+interface ConnectionArguments {
     /** An absolute path to the "program" to debug. */
     program: string;
     /* runtime IP */
     runtimeIP: string;
     runtimePort: number;
     // remote debugging
+    pathMappings?: Array<PathMapping>;
+    // single mapping, kept for older launch configurations
     srcPath?: string;
     dstPath?: string;
+    // time in ms to wait for each simulator response
+    requestTimeout?: number;
+    // larger arrays are fetched page by page when expanded
+    arraySizeLimit?: number;
+    // reconnection after the connection drops
+    reconnectAttempts?: number;
+    reconnectDelay?: number;
+    // keep polling until the simulator starts listening
+    waitForSimulator?: boolean;
+    // in seconds
+    waitTimeout?: number;
+}
+
+interface LaunchRequestArguments extends DebugProtocol.LaunchRequestArguments, ConnectionArguments {
+    // simulator spawned by the debugger
+    simulator?: string;
+    simulatorArgs?: Array<string>;
+    simulatorEnv?: { [name: string]: string };
+    simulatorCwd?: string;
+}
+
+interface AttachRequestArguments extends DebugProtocol.AttachRequestArguments, ConnectionArguments {
 }
 
 interface RefInfo {
@@ -33,6 +61,9 @@ export class HGDBDebugSession extends LoggingDebugSession {
 
     private readonly _runtime: HGDBRuntime;
 
+    // gdb style commands in the Debug Console
+    private readonly _console: HGDBConsole;
+
     private _variableHandles = new Handles<string>();
 
     private _configurationDone = new Subject();
@@ -43,6 +74,15 @@ export class HGDBDebugSession extends LoggingDebugSession {
 
     private _var_mapping = new Map<number, RefInfo>();
 
+    // display format chosen from the Variables view, keyed by the scope, instance and full variable name
+    private _valueFormats = new Map<string, ValueFormat>();
+
+    // attached to an already running simulator
+    private _isAttach = false;
+
+    // status bar message shown while reconnecting to the simulator
+    private _reconnectStatus: vscode.Disposable | undefined;
+
     /**
      * Creates a new debug adapter that is used for one debug session.
      * We configure the default implementation of a debug adapter here.
@@ -64,6 +104,7 @@ export class HGDBDebugSession extends LoggingDebugSession {
             abort();
         }
         this._runtime = new HGDBRuntime(root_path);
+        this._console = new HGDBConsole(this._runtime);
 
         let sendEventThread = (c: any, name: string) => {
             for (let i = 0; i < this._threads.length; i++) {
@@ -85,7 +126,7 @@ export class HGDBDebugSession extends LoggingDebugSession {
 
             this._threads = [];
         };
-        this._runtime.on('stopOnBreakpoint', () => {
+        let stop_instances = (reason: string, text?: string, description?: string) => {
             // clean up the current threads
             clear_threads();
             const names = this._runtime.getCurrentGeneratorNames();
@@ -93,25 +134,63 @@ export class HGDBDebugSession extends LoggingDebugSession {
                 this._threads.push(new Thread(instance_id, name));
             });
             names.forEach((_: string, instance_id: number) => {
-                this.sendEvent(new StoppedEvent('breakpoint', instance_id));
+                const e: DebugProtocol.StoppedEvent = new StoppedEvent(reason, instance_id, text);
+                if (description) {
+                    e.body.description = description;
+                }
+                this.sendEvent(e);
             });
+        };
+        this._runtime.on('stopOnBreakpoint', () => {
+            stop_instances('breakpoint');
         });
         this._runtime.on('stopOnDataBreakpoint', () => {
             // data breakpoint is implemented the same way as the normal breakpoint in the end,
             // so we reuse most of the logic
-            // clean up the current threads
-            clear_threads();
-            const names = this._runtime.getCurrentGeneratorNames();
-            names.forEach((name: string, instance_id: number) => {
-                this._threads.push(new Thread(instance_id, name));
-            });
-            names.forEach((_: string, instance_id: number) => {
-                this.sendEvent(new StoppedEvent('data breakpoint', instance_id));
-            });
+            const watchpoints = this._runtime.getCurrentWatchpoints();
+            stop_instances('data breakpoint', undefined, watchpoints.length > 0 ?
+                `Watchpoint ${watchpoints.join(", ")} changed` : undefined);
+        });
+        this._runtime.on('stopOnFunctionBreakpoint', () => {
+            // function breakpoints are instance breakpoints
+            stop_instances('function breakpoint');
         });
         this._runtime.on('stopOnException', () => {
-            this._threads = [new Thread(0, "Thread 0")];
-            this.sendEvent(new StoppedEvent('exception', 0));
+            const info = this._runtime.getExceptionInfo();
+            stop_instances('exception', info ? info.description : undefined);
+        });
+        this._runtime.on('stopOnPause', () => {
+            stop_instances('pause');
+        });
+        this._runtime.on('stopOnGoto', () => {
+            stop_instances('goto');
+        });
+        this._runtime.on('stopOnRunTarget', () => {
+            // no user breakpoint fired before the requested time or cycle
+            const time = this._runtime.getCurrentTime();
+            const names = Array.from(this._runtime.getCurrentGeneratorNames().values());
+            this.sendEvent(new OutputEvent(`Reached time ${time}. Active instances: ${names.join(", ")}\n`, 'console'));
+            stop_instances('step', undefined, `Reached time ${time}`);
+        });
+        this._runtime.on('continued', () => {
+            // run commands issued outside of the normal continue/step requests
+            this.sendContinuedEvent();
+        });
+        this._runtime.on('breakpointAdded', async (bp: HGDBBreakpoint) => {
+            // inserted through the Debug Console
+            this.sendEvent(new BreakpointEvent('new', <DebugProtocol.Breakpoint>{
+                verified: bp.valid,
+                id: bp.id,
+                source: await this.createSource(bp.filename),
+                line: this.convertDebuggerLineToClient(bp.line_num),
+                column: bp.column_num > 0 ? this.convertDebuggerColumnToClient(bp.column_num) : undefined
+            }));
+        });
+        this._runtime.on('breakpointRemoved', (bp: HGDBBreakpoint) => {
+            this.sendEvent(new BreakpointEvent('removed', <DebugProtocol.Breakpoint>{
+                verified: bp.valid,
+                id: bp.id
+            }));
         });
         this._runtime.on('breakpointValidated', (bp: HGDBBreakpoint) => {
             this.sendEvent(new BreakpointEvent('changed', <DebugProtocol.Breakpoint>{
@@ -120,14 +199,32 @@ export class HGDBDebugSession extends LoggingDebugSession {
                 column: bp.column_num
             }));
         });
-        this._runtime.on('output', async (text, filePath, line, column) => {
-            const e: DebugProtocol.OutputEvent = new OutputEvent(`${text}\n`);
-            e.body.source = await this.createSource(filePath);
-            e.body.line = this.convertDebuggerLineToClient(line);
-            e.body.column = this.convertDebuggerColumnToClient(column);
+        this._runtime.on('output', async (text: string, category: string, filePath?: string, line?: number,
+                                          column?: number) => {
+            const e: DebugProtocol.OutputEvent = new OutputEvent(text, category);
+            if (filePath) {
+                e.body.source = await this.createSource(filePath);
+                if (line !== undefined) {
+                    e.body.line = this.convertDebuggerLineToClient(line);
+                }
+                if (column !== undefined) {
+                    e.body.column = this.convertDebuggerColumnToClient(column);
+                }
+            }
             this.sendEvent(e);
         });
+        this._runtime.on('reconnecting', (attempt: number, total: number) => {
+            this.sendEvent(new OutputEvent(`Connection to simulator lost. Reconnecting (${attempt}/${total})\n`, 'console'));
+            this.clearReconnectStatus();
+            this._reconnectStatus = vscode.window.setStatusBarMessage(
+                `$(sync~spin) hgdb: reconnecting to simulator (${attempt}/${total})`);
+        });
+        this._runtime.on('reconnected', () => {
+            this.clearReconnectStatus();
+            this.sendEvent(new OutputEvent("Reconnected to simulator\n", 'console'));
+        });
         this._runtime.on('end', () => {
+            this.clearReconnectStatus();
             this.sendEvent(new TerminatedEvent());
         });
         // error messages
@@ -154,14 +251,38 @@ export class HGDBDebugSession extends LoggingDebugSession {
         // we support conditional breakpoints
         response.body.supportsConditionalBreakpoints = true;
 
-        // no step in support
-        response.body.supportsStepInTargetsRequest = false;
+        // logpoints are evaluated in the instance scope and auto-continue
+        response.body.supportsLogPoints = true;
+
+        // hit counts are tracked per breakpoint id
+        response.body.supportsHitConditionalBreakpoints = true;
+
+        // a line can map to several child scopes, e.g. submodule instantiations
+        response.body.supportsStepInTargetsRequest = true;
 
         // make VS Code to support data breakpoints
         response.body.supportsDataBreakpoints = true;
 
+        // rewind to time zero, or start the spawned simulator again
+        response.body.supportsRestartRequest = true;
+
+        // jump to cursor moves to another breakpoint location
+        response.body.supportsGotoTargetsRequest = true;
+
+        // function breakpoints are used as instance breakpoints
+        response.body.supportsFunctionBreakpoints = true;
+
+        // simulator failures are reported as exceptions
+        response.body.exceptionBreakpointFilters = [
+            {filter: "assertion", label: "Assertion Failures", default: true},
+            {filter: "error", label: "$error/$fatal", default: false},
+            {filter: "x-propagation", label: "X Propagation", default: false}
+        ];
+        response.body.supportsExceptionInfoRequest = true;
+
         // make VS Code to support completion in REPL
-        response.body.supportsCompletionsRequest = false;
+        response.body.supportsCompletionsRequest = true;
+        response.body.supportsValueFormattingOptions = true;
         response.body.completionTriggerCharacters = [".", "["];
 
         // make VS Code to send cancelRequests
@@ -173,6 +294,9 @@ export class HGDBDebugSession extends LoggingDebugSession {
         // support terminate request
         response.body.supportsTerminateRequest = true;
 
+        // let the user choose whether disconnect stops the simulation
+        response.body.supportTerminateDebuggee = true;
+
         // support reverse request
         response.body.supportsStepBack = true;
 
@@ -199,6 +323,24 @@ export class HGDBDebugSession extends LoggingDebugSession {
     }
 
     protected async launchRequest(response: DebugProtocol.LaunchResponse, args: LaunchRequestArguments) {
+        if (args.simulator) {
+            this._runtime.setSimulator({
+                command: args.simulator,
+                args: args.simulatorArgs ? args.simulatorArgs : [],
+                env: args.simulatorEnv,
+                cwd: args.simulatorCwd
+            });
+        }
+
+        await this.startSession(response, args, args.simulator !== undefined && args.simulator.length > 0);
+    }
+
+    protected async attachRequest(response: DebugProtocol.AttachResponse, args: AttachRequestArguments) {
+        this._isAttach = true;
+        await this.startSession(response, args, false);
+    }
+
+    private async startSession(response: DebugProtocol.Response, args: ConnectionArguments, spawned: boolean) {
         // wait until configuration has finished (and configurationDoneRequest has been called)
         await this._configurationDone.wait(1000);
 
@@ -207,31 +349,84 @@ export class HGDBDebugSession extends LoggingDebugSession {
         this._runtime.setRuntimePort(args.runtimePort);
 
         // set remote debugging
-        this._runtime.setSrcPath(args.srcPath ? args.srcPath : "");
-        this._runtime.setDstPath(args.dstPath ? args.dstPath : "");
+        const mappings = args.pathMappings ? args.pathMappings.slice() : [];
+        if (args.srcPath && args.dstPath) {
+            mappings.push({localRoot: args.srcPath, remoteRoot: args.dstPath});
+        }
+        this._runtime.setPathMappings(mappings);
+
+        if (args.requestTimeout !== undefined) {
+            this._runtime.setRequestTimeout(args.requestTimeout);
+        }
+        if (args.arraySizeLimit !== undefined) {
+            this._runtime.setArraySizeLimit(args.arraySizeLimit);
+        }
+        this._runtime.setReconnect(args.reconnectAttempts !== undefined ? args.reconnectAttempts : 5,
+            args.reconnectDelay !== undefined ? args.reconnectDelay : 1000);
 
         // start the program in the runtime
-        await this._runtime.start(args.program);
+        try {
+            if (args.waitForSimulator) {
+                const timeout = args.waitTimeout !== undefined ? args.waitTimeout : 300;
+                this._runtime.setWaitTimeout(timeout * 1000);
+            }
+            if (args.waitForSimulator || spawned) {
+                await this.waitForSimulator(args, spawned);
+            } else {
+                await this._runtime.start(args.program);
+            }
+        } catch (error) {
+            this.sendRuntimeErrorResponse(response, error);
+            return;
+        }
 
         this.sendResponse(response);
     }
 
+    private async waitForSimulator(args: ConnectionArguments, spawned: boolean) {
+        const title = spawned ? "Starting simulator" : `Waiting for simulator on ${args.runtimeIP}:${args.runtimePort}`;
+        await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: title,
+            cancellable: true
+        }, async (progress, token) => {
+            const listener = (attempt: number, remaining: number) => {
+                progress.report({message: `attempt ${attempt}, ${Math.ceil(remaining / 1000)}s left`});
+            };
+            this._runtime.on("waitingForSimulator", listener);
+            try {
+                await this._runtime.start(args.program, () => token.isCancellationRequested);
+            } finally {
+                this._runtime.removeListener("waitingForSimulator", listener);
+            }
+        });
+    }
+
     protected async setBreakPointsRequest(response: DebugProtocol.SetBreakpointsResponse, args: DebugProtocol.SetBreakpointsArguments) {
 
         const path = <string>args.source.path;
         const breakpoints = args.breakpoints || [];
 
-        // clear all breakpoints for this file
-        // It's a command practice to do so (chrome-dev-core does that as well)
-        await this._runtime.clearBreakpoints(path);
-
         // set and verify breakpoint locations
         let breakpoints_result = new Array<DebugProtocol.Breakpoint>();
 
+        try {
+            // clear all breakpoints for this file
+            // It's a command practice to do so (chrome-dev-core does that as well)
+            await this._runtime.clearBreakpoints(path);
+        } catch (error) {
+            this.sendRuntimeErrorResponse(response, error);
+            return;
+        }
+
         for (const bp_entry of breakpoints) {
-            console.log(bp_entry);
-            const bps = await this._runtime.verifyBreakpoint(path, this.convertClientLineToDebugger(bp_entry.line),
-                bp_entry.column ? this.convertClientColumnToDebugger(bp_entry.column) : undefined);
+            let bps: Array<HGDBBreakpoint>;
+            try {
+                bps = await this._runtime.verifyBreakpoint(path, this.convertClientLineToDebugger(bp_entry.line),
+                    bp_entry.column ? this.convertClientColumnToDebugger(bp_entry.column) : undefined);
+            } catch (error) {
+                bps = [];
+            }
             if (bps.length === 0) {
                 // invalid breakpoint
                 // use -1 for invalid bp id
@@ -252,8 +447,14 @@ export class HGDBDebugSession extends LoggingDebugSession {
                         bp.column_num > 0 ? this.convertDebuggerColumnToClient(bp.column_num) : undefined);
                     b.id = bp.id;
                     if (same_line_location || (bps.length > 1 && bp_entry.column !== undefined)) {
+                        try {
+                            await this._runtime.setBreakpoint(bp.id, bp_entry.condition, bp_entry.logMessage,
+                                bp_entry.hitCondition);
+                        } catch (error) {
+                            b.verified = false;
+                            b.message = error.message;
+                        }
                         breakpoints_result.push(b);
-                        await this._runtime.setBreakpoint(bp.id, bp_entry.condition);
                     }
                 }
             }
@@ -267,10 +468,62 @@ export class HGDBDebugSession extends LoggingDebugSession {
         this.sendResponse(response);
     }
 
+    protected setFunctionBreakPointsRequest(response: DebugProtocol.SetFunctionBreakpointsResponse, args: DebugProtocol.SetFunctionBreakpointsArguments, request?: DebugProtocol.Request) {
+        // function names are read as hierarchical instance paths or globs
+        const names = args.breakpoints.map(bp => bp.name.trim());
+        this._runtime.setInstanceBreakpoints(names.filter(name => name.length > 0));
+        response.body = {
+            breakpoints: names.map(name => {
+                const b = <DebugProtocol.Breakpoint>new Breakpoint(name.length > 0);
+                if (name.length === 0) {
+                    b.message = "Empty instance name";
+                }
+                return b;
+            })
+        };
+        this.sendResponse(response);
+    }
+
+    protected async setExceptionBreakPointsRequest(response: DebugProtocol.SetExceptionBreakpointsResponse, args: DebugProtocol.SetExceptionBreakpointsArguments, request?: DebugProtocol.Request) {
+        const types = <Array<ExceptionType>>args.filters.filter(f => ExceptionTypes.indexOf(<ExceptionType>f) >= 0);
+        let supported: boolean;
+        try {
+            supported = await this._runtime.setExceptionBreakpoints(types);
+        } catch (error) {
+            this.sendRuntimeErrorResponse(response, error);
+            return;
+        }
+        this.sendResponse(response);
+        if (!supported && types.length > 0) {
+            // older simulators don't know the options. the session works without them
+            this.sendEvent(new OutputEvent("Exception breakpoints are not supported by the simulator\n", 'console'));
+        }
+    }
+
+    protected exceptionInfoRequest(response: DebugProtocol.ExceptionInfoResponse, args: DebugProtocol.ExceptionInfoArguments, request?: DebugProtocol.Request) {
+        const info = this._runtime.getExceptionInfo();
+        if (!info) {
+            this.sendErrorResponse(response, 1002, "Not stopped on an exception");
+            return;
+        }
+        response.body = {
+            exceptionId: info.type,
+            description: info.description,
+            breakMode: "always"
+        };
+        this.sendResponse(response);
+    }
+
     protected async breakpointLocationsRequest(response: DebugProtocol.BreakpointLocationsResponse, args: DebugProtocol.BreakpointLocationsArguments, request?: DebugProtocol.Request) {
         if (args.source.path) {
-            const cols = await this._runtime.getBreakpoints(args.source.path,
-                this.convertClientLineToDebugger(args.line));
+            let cols: Array<number>;
+            try {
+                cols = await this._runtime.getBreakpoints(args.source.path,
+                    this.convertClientLineToDebugger(args.line));
+            } catch (error) {
+                this.sendRuntimeErrorResponse(response, error);
+                return;
+            }
             let bps = new Array<DebugProtocol.BreakpointLocation>();
             cols.forEach(col => {
                 bps.push({
@@ -349,7 +602,7 @@ export class HGDBDebugSession extends LoggingDebugSession {
 
     protected async variablesRequest(response: DebugProtocol.VariablesResponse, args: DebugProtocol.VariablesArguments, request?: DebugProtocol.Request) {
 
-        const variables: DebugProtocol.Variable[] = [];
+        let variables: DebugProtocol.Variable[] = [];
 
         const raw_id = this._variableHandles.get(args.variablesReference);
         const raw_tokens = raw_id.split('-').filter(n => n);
@@ -393,13 +646,18 @@ export class HGDBDebugSession extends LoggingDebugSession {
             const instance_vars = this._runtime.getCurrentLocalVariables().get(instance_id);
             if (instance_vars) {
                 const vars = instance_vars[stack_id];
+                const lazy_arrays = this._runtime.getLazyArraySizes(instance_id, stack_id, true);
                 let handles = new Set<string>();
                 vars.forEach((value: string, name: string) => {
+                    if (HGDBDebugSession.inLazyArray(name, "", lazy_arrays)) {
+                        return;
+                    }
                     // determine whether the name has any dot in it
                     // this is top level
                     this.processNestedScope(name, handles, instance_id, stack_id, variables, value, false,
                         args.variablesReference);
                 });
+                this.addLazyArrays("", instance_id, stack_id, false, variables, handles, args.variablesReference);
             }
 
         } else if (id === "global") {
@@ -416,14 +674,38 @@ export class HGDBDebugSession extends LoggingDebugSession {
             const gen_vars = this._runtime.getCurrentGeneratorVariables().get(instance_id);
             if (gen_vars) {
                 const vars = gen_vars[stack_id];
+                const lazy_arrays = this._runtime.getLazyArraySizes(instance_id, stack_id, false);
                 let handles = new Set<string>();
                 vars.forEach((value: string, name: string) => {
+                    if (HGDBDebugSession.inLazyArray(name, "", lazy_arrays)) {
+                        return;
+                    }
                     this.processNestedScope(name, handles, instance_id, stack_id, variables, value, true,
                         args.variablesReference);
                 });
+                this.addLazyArrays("", instance_id, stack_id, true, variables, handles, args.variablesReference);
             }
 
         } else {
+            const lazy_arrays = this._runtime.getLazyArraySizes(instance_id, stack_id, !is_generator);
+            const array_size = lazy_arrays.get(id);
+            if (array_size !== undefined) {
+                if (args.filter === "named") {
+                    // array elements are all indexed
+                    response.body = {
+                        variables: variables
+                    };
+                    this.sendResponse(response);
+                    return;
+                }
+                try {
+                    await this._runtime.fetchArrayValues(id, instance_id, stack_id, !is_generator,
+                        args.start !== undefined ? args.start : 0, args.count ? args.count : array_size);
+                } catch (error) {
+                    this.sendRuntimeErrorResponse(response, error);
+                    return;
+                }
+            }
             // we run a query to figure out any lower level
             const instance_vars = is_generator ? this._runtime.getCurrentGeneratorVariables().get(instance_id) :
                 this._runtime.getCurrentLocalVariables().get(instance_id);
@@ -433,6 +715,9 @@ export class HGDBDebugSession extends LoggingDebugSession {
                 const id_name = id + ".";
                 let handles = new Set<string>();
                 vars.forEach((value: string, name: string) => {
+                    if (HGDBDebugSession.inLazyArray(name, id_name, lazy_arrays)) {
+                        return;
+                    }
                     if (name.length >= id_name.length && name.substr(0, id_name.length) === id_name) {
                         let sub_name = name.substr(id_name.length);
                         if (sub_name.includes(".")) {
@@ -464,6 +749,7 @@ export class HGDBDebugSession extends LoggingDebugSession {
                                     name: next_name,
                                     type: "object",
                                     value: value,
+                                    evaluateName: handle_name,
                                     variablesReference: ref
                                 });
                                 handles.add(next_name);
@@ -477,11 +763,43 @@ export class HGDBDebugSession extends LoggingDebugSession {
                                 name: sub_name,
                                 type: "integer",
                                 value: value,
+                                evaluateName: name,
                                 variablesReference: 0
                             });
                         }
                     }
                 });
+                this.addLazyArrays(id_name, instance_id, stack_id, is_generator, variables, handles, args.variablesReference);
+            }
+            if (array_size !== undefined && args.start !== undefined) {
+                // elements of other pages fetched earlier are still in the frame
+                const start = args.start;
+                const end = args.count ? start + args.count : array_size;
+                variables = variables.filter(variable => {
+                    const index = Number(variable.name.replace(/^\[(\d+)]$/, "$1"));
+                    return Number.isInteger(index) && index >= start && index < end;
+                });
+            }
+        }
+
+        if (id !== "global") {
+            const is_local = id === "local" || (id !== "generator" && !is_generator);
+            // only values are formatted, so aggregates don't need their type
+            const leaves = variables.filter(variable => variable.variablesReference === 0 && variable.evaluateName);
+            const names = leaves.map(variable => <string>variable.evaluateName);
+            let types = new Map<string, TypeInfo | undefined>();
+            try {
+                types = await this._runtime.getVariableTypes(names, instance_id, is_local);
+            } catch (error) {
+                // values are still readable without the type
+            }
+            for (const variable of leaves) {
+                const name = <string>variable.evaluateName;
+                const type = types.get(name);
+                if (type) {
+                    variable.type = typeName(type);
+                }
+                variable.value = formatTypedValue(variable.value, type, this.getValueFormat(name, instance_id, is_local, args.format));
             }
         }
 
@@ -491,6 +809,92 @@ export class HGDBDebugSession extends LoggingDebugSession {
         this.sendResponse(response);
     }
 
+    /**
+     * Format the value with its type from the symbol table, as chosen in the Variables view or
+     * as requested by the client
+     */
+    private async formatVariable(value: string, full_name: string, instance_id: number, is_local: boolean,
+                                 format?: DebugProtocol.ValueFormat) {
+        const type = await this.tryGetVariableType(full_name, instance_id, is_local);
+        return formatTypedValue(value, type, this.getValueFormat(full_name, instance_id, is_local, format));
+    }
+
+    private getValueFormat(full_name: string, instance_id: number, is_local: boolean,
+                           format?: DebugProtocol.ValueFormat): ValueFormat | undefined {
+        const value_format = this._valueFormats.get(HGDBDebugSession.valueFormatKey(full_name, instance_id, is_local));
+        if (value_format === undefined && format && format.hex) {
+            return "hex";
+        }
+        return value_format;
+    }
+
+    private static valueFormatKey(full_name: string, instance_id: number, is_local: boolean) {
+        // the same variable name can be in many instances and in both scopes
+        return `${is_local ? "local" : "generator"}-${instance_id}-${convertToDot(full_name)}`;
+    }
+
+    private async tryGetVariableType(full_name: string, instance_id: number, is_local: boolean) {
+        try {
+            return await this._runtime.getVariableType(full_name, instance_id, is_local);
+        } catch (error) {
+            // values are still readable without the type
+            return undefined;
+        }
+    }
+
+    /**
+     * Add arrays of the frame whose elements are fetched from the simulator when expanded, along
+     * with the structs that only hold such arrays
+     */
+    private addLazyArrays(prefix: string, instance_id: number, stack_id: number, isGenerator: boolean,
+                          variables: DebugProtocol.Variable[], handles: Set<string>, parent_ref: number) {
+        const suffix = isGenerator ? "generator" : "local";
+        this._runtime.getLazyArraySizes(instance_id, stack_id, !isGenerator).forEach((size, name) => {
+            if (!name.startsWith(prefix)) {
+                return;
+            }
+            const sub_name = name.substr(prefix.length);
+            if (sub_name.includes(".")) {
+                const name_tokens = sub_name.split(".");
+                const next_name = name_tokens[0];
+                if (!handles.has(next_name)) {
+                    const ref = this._variableHandles.create(`${prefix}${next_name}-${instance_id}-${stack_id}-${suffix}`);
+                    this._var_mapping.set(ref, {"parent": parent_ref, "name": next_name});
+                    variables.push({
+                        name: isNaN(Number(next_name)) ? next_name : `[${next_name}]`,
+                        type: "object",
+                        value: isNaN(Number(name_tokens[1])) ? "Object" : "Array",
+                        evaluateName: prefix + next_name,
+                        variablesReference: ref
+                    });
+                    handles.add(next_name);
+                }
+                return;
+            }
+            handles.add(sub_name);
+            const ref = this._variableHandles.create(`${name}-${instance_id}-${stack_id}-${suffix}`);
+            this._var_mapping.set(ref, {"parent": parent_ref, "name": sub_name});
+            variables.push({
+                name: isNaN(Number(sub_name)) ? sub_name : `[${sub_name}]`,
+                type: "object",
+                value: "Array",
+                evaluateName: name,
+                variablesReference: ref,
+                indexedVariables: size
+            });
+        });
+    }
+
+    // elements of lazy arrays below the scope are listed by the arrays themselves
+    private static inLazyArray(name: string, prefix: string, lazy_arrays: Map<string, number>) {
+        for (const array_name of lazy_arrays.keys()) {
+            if (array_name.startsWith(prefix) && name.startsWith(array_name + ".")) {
+                return true;
+            }
+        }
+        return false;
+    }
+
     private processNestedScope(name: string, handles: Set<string>, instance_id: number, stack_id: number,
                                variables: DebugProtocol.Variable[], value: string, isGenerator: Boolean,
                                parent_ref: number) {
@@ -511,6 +915,7 @@ export class HGDBDebugSession extends LoggingDebugSession {
                     name: handle_name,
                     type: "object",
                     value: value,
+                    evaluateName: handle_name,
                     variablesReference: ref
                 });
                 handles.add(handle_name);
@@ -521,6 +926,7 @@ export class HGDBDebugSession extends LoggingDebugSession {
                 name: name,
                 type: "integer",
                 value: value,
+                evaluateName: name,
                 variablesReference: 0
             });
         }
@@ -530,24 +936,56 @@ export class HGDBDebugSession extends LoggingDebugSession {
         // REPL loop
         if (args.context === 'repl') {
             const expression = args.expression;
-            const result = await this._runtime.handleREPL(expression);
-            if (result.length > 0) {
-                response.body = {
-                    result: result,
-                    variablesReference: 0,
-                };
-                response.success = true;
-                this.sendResponse(response);
+            // print is the only command that evaluates an expression
+            const print_match = /^\s*print\s+(.+)$/.exec(expression);
+            const target = print_match ? print_match[1] : HGDBConsole.isCommand(expression) ? undefined : expression;
+            if (args.frameId !== undefined && target !== undefined) {
+                // aggregates of the selected frame are shown as a tree
+                const aggregate = this.evaluateAggregate(target, args.frameId);
+                if (aggregate) {
+                    response.body = aggregate;
+                    this.sendResponse(response);
+                    return;
+                }
+            }
+            let result: ConsoleResult;
+            try {
+                result = await this._console.execute(expression);
+            } catch (error) {
+                this.sendRuntimeErrorResponse(response, error);
+                return;
+            }
+            response.body = {
+                result: result.output,
+                variablesReference: 0,
+            };
+            response.success = true;
+            this.sendResponse(response);
+            if (result.resumed) {
+                this.sendContinuedEvent();
             }
         } else if (args.context === 'watch') {
             // we use frame id to figure out which instance to query
             const frame_id = args.frameId;
             if (frame_id !== undefined) {
+                const aggregate = this.evaluateAggregate(args.expression, frame_id);
+                if (aggregate) {
+                    response.body = aggregate;
+                    this.sendResponse(response);
+                    return;
+                }
                 const instance_id = HGDBRuntime.getInstanceFrameID(frame_id)[0];
-                const result = await this._runtime.evaluateInstanceScope(args.expression, instance_id);
+                let result: string;
+                try {
+                    result = await this._runtime.evaluateInstanceScope(args.expression, instance_id);
+                } catch (error) {
+                    this.sendRuntimeErrorResponse(response, error);
+                    return;
+                }
                 if (result) {
                     response.body = {
-                        result: result,
+                        result: await this.formatVariable(result, convertToDot(args.expression.trim()), instance_id,
+                            false, args.format),
                         variablesReference: 0,
                     };
                     response.success = true;
@@ -558,7 +996,109 @@ export class HGDBDebugSession extends LoggingDebugSession {
             response.success = false;
             response.body.result = "Unable to evaluate";
             this.sendResponse(response);
+        } else if (args.context === 'hover') {
+            if (args.frameId === undefined) {
+                this.sendErrorResponse(response, 1002, "No frame selected");
+                return;
+            }
+            const [instance_id, stack_id] = HGDBRuntime.getInstanceFrameID(args.frameId);
+            // values shipped with the breakpoint are cheaper than asking the simulator
+            let body = this.evaluateCachedVariable(args.expression, instance_id, stack_id);
+            if (body && body.variablesReference === 0) {
+                body.result = await this.formatVariable(body.result, convertToDot(args.expression.trim()), instance_id,
+                    this.isLocalVariable(args.expression, instance_id, stack_id), args.format);
+            }
+            if (!body) {
+                let result: string | undefined;
+                try {
+                    result = await this._runtime.tryEvaluateInstanceScope(args.expression, instance_id);
+                } catch (error) {
+                    this.sendRuntimeErrorResponse(response, error);
+                    return;
+                }
+                if (result === undefined) {
+                    // not something the simulator knows about. no hover
+                    this.sendErrorResponse(response, 1002, `Unable to evaluate ${args.expression}`);
+                    return;
+                }
+                body = {result: result, variablesReference: 0};
+            }
+            response.body = body;
+            this.sendResponse(response);
+        }
+    }
+
+    private isLocalVariable(expression: string, instance_id: number, stack_id: number) {
+        const frames = this._runtime.getCurrentLocalVariables().get(instance_id);
+        return frames !== undefined && stack_id < frames.length && frames[stack_id].has(convertToDot(expression.trim()));
+    }
+
+    /**
+     * Expandable result if the expression names an array or struct in the frame.
+     * The simulator only evaluates single values
+     */
+    private evaluateAggregate(expression: string, frame_id: number) {
+        const [instance_id, stack_id] = HGDBRuntime.getInstanceFrameID(frame_id);
+        const body = this.evaluateCachedVariable(expression, instance_id, stack_id);
+        return body && body.variablesReference > 0 ? body : undefined;
+    }
+
+    /**
+     * Look up the expression in the local and generator values of the frame. Aggregates get a
+     * variable reference, so they can be expanded the same way as in the Variables view
+     */
+    private evaluateCachedVariable(expression: string, instance_id: number, stack_id: number) {
+        const name = convertToDot(expression.trim());
+        const sources: Array<[Array<Map<string, string>> | undefined, string]> = [
+            [this._runtime.getCurrentLocalVariables().get(instance_id), "local"],
+            [this._runtime.getCurrentGeneratorVariables().get(instance_id), "generator"]
+        ];
+        for (const [frames, suffix] of sources) {
+            if (!frames || stack_id >= frames.length) {
+                continue;
+            }
+            const vars = frames[stack_id];
+            const value = vars.get(name);
+            if (value !== undefined) {
+                return {result: value, variablesReference: 0};
+            }
+            const array_size = this._runtime.getLazyArraySizes(instance_id, stack_id, suffix === "local").get(name);
+            const prefix = name + ".";
+            const member = Array.from(vars.keys()).find(key => key.startsWith(prefix));
+            if (array_size !== undefined || member !== undefined) {
+                const ref = this._variableHandles.create(`${name}-${instance_id}-${stack_id}-${suffix}`);
+                this._var_mapping.set(ref, {"parent": 0, "name": name});
+                if (array_size !== undefined) {
+                    // elements are fetched when expanded
+                    return {result: "Array", variablesReference: ref, indexedVariables: array_size};
+                }
+                const next_name = (<string>member).substr(prefix.length).split(".")[0];
+                return {result: isNaN(Number(next_name)) ? "Object" : "Array", variablesReference: ref};
+            }
+        }
+        return undefined;
+    }
+
+    protected completionsRequest(response: DebugProtocol.CompletionsResponse, args: DebugProtocol.CompletionsArguments, request?: DebugProtocol.Request) {
+        const text = args.text.substr(0, this.convertClientColumnToDebugger(args.column) - 1);
+        // only complete the name right before the cursor
+        const typed = (/[\w$.\[\]]*$/.exec(text) || [""])[0];
+        const instance_id = args.frameId !== undefined ? HGDBRuntime.getInstanceFrameID(args.frameId)[0] : undefined;
+        const names = this._runtime.getCompletionNames(instance_id);
+        const completion = completeName(typed, names);
+        let targets: Array<DebugProtocol.CompletionItem> = completion.candidates.map(candidate => {
+            return {label: candidate, length: completion.length, type: candidate.endsWith("]") ? "value" : "variable"};
+        });
+        // REPL commands are only valid as the first word
+        const command_match = /^\s*([\w-]*)$/.exec(text);
+        if (command_match) {
+            const word = command_match[1];
+            ConsoleCommands.filter(command => command.startsWith(word)).forEach(command => {
+                targets.push({label: command, length: word.length, type: "keyword"});
+            });
         }
+        response.body = {targets: targets};
+        this.sendResponse(response);
     }
 
     protected async dataBreakpointInfoRequest(response: DebugProtocol.DataBreakpointInfoResponse, args: DebugProtocol.DataBreakpointInfoArguments, request?: DebugProtocol.Request) {
@@ -571,13 +1111,9 @@ export class HGDBDebugSession extends LoggingDebugSession {
         }
 
         const instance_id = this._getInstanceID(args.variablesReference);
-        let error = false;
-        if (instance_id === undefined) {
-            error = true;
-        } else {
-            if (!error) {
-                error = !(await this._runtime.validateDataBreakpoint(instance_id, fullName));
-            }
+        let dataId: string | undefined;
+        if (instance_id !== undefined && await this._runtime.validateDataBreakpoint(instance_id, fullName)) {
+            dataId = this._runtime.getDataBreakpointID(instance_id, fullName);
         }
 
         response.body = {
@@ -587,9 +1123,9 @@ export class HGDBDebugSession extends LoggingDebugSession {
             canPersist: false
         };
 
-        if (!error && instance_id !== undefined) {
-            response.body.dataId = instance_id.toString() + "-" + fullName;
-            response.body.description = fullName;
+        if (instance_id !== undefined && dataId !== undefined) {
+            response.body.dataId = dataId;
+            response.body.description = `${this._runtime.getCurrentGeneratorNames().get(instance_id)}.${fullName}`;
             response.body.accessTypes = ["write"];
             response.body.canPersist = true;
         }
@@ -598,34 +1134,30 @@ export class HGDBDebugSession extends LoggingDebugSession {
     }
 
     protected async setDataBreakpointsRequest(response: DebugProtocol.SetDataBreakpointsResponse, args: DebugProtocol.SetDataBreakpointsArguments, request?: DebugProtocol.Request) {
-        // clear all data breakpoints first
-        await this._runtime.clearDataBreakpoints();
+        // only the changes are sent to the simulator
+        let statuses: Array<HGDBDataBreakpointStatus>;
+        try {
+            statuses = await this._runtime.setDataBreakpoints(args.breakpoints.map(dbp => {
+                return {dataId: dbp.dataId, condition: dbp.condition, hitCondition: dbp.hitCondition};
+            }));
+        } catch (error) {
+            this.sendRuntimeErrorResponse(response, error);
+            return;
+        }
         response.body = {
-            breakpoints: []
+            breakpoints: statuses.map(status => {
+                return {verified: status.verified, message: status.message};
+            })
         };
-
-        for (const dbp of args.breakpoints) {
-            let cond: string = dbp.hitCondition === undefined ? "" : dbp.hitCondition;
-            const raw_tokens = dbp.dataId.split('-').filter(n => n);
-            let instance_id = Number.parseInt(raw_tokens[0]);
-            let var_name = raw_tokens[1];
-
-            const ok = await this._runtime.addDataBreakPoint(instance_id, var_name, cond);
-            response.body.breakpoints.push({
-                verified: ok
-            });
-        }
         this.sendResponse(response);
     }
 
     protected async continueRequest(response: DebugProtocol.ContinueResponse, args: DebugProtocol.ContinueArguments) {
-        await this._runtime.continue();
-        this.sendResponse(response);
+        await this.runRuntimeCommand(response, () => this._runtime.continue());
     }
 
     protected async nextRequest(response: DebugProtocol.NextResponse, args: DebugProtocol.NextArguments) {
-        await this._runtime.step();
-        this.sendResponse(response);
+        await this.runRuntimeCommand(response, () => this._runtime.step());
     }
 
     protected cancelRequest(response: DebugProtocol.CancelResponse, args: DebugProtocol.CancelArguments) {
@@ -635,17 +1167,120 @@ export class HGDBDebugSession extends LoggingDebugSession {
     }
 
     protected async terminateRequest(response: DebugProtocol.TerminateResponse, args: DebugProtocol.TerminateArguments, request?: DebugProtocol.Request) {
-        await this._runtime.stop();
-        this.sendResponse(response);
+        await this.runRuntimeCommand(response, () => this._runtime.stop());
+    }
+
+    protected async disconnectRequest(response: DebugProtocol.DisconnectResponse, args: DebugProtocol.DisconnectArguments, request?: DebugProtocol.Request) {
+        // by default only stop the simulation if we launched it. attached sessions detach
+        // and leave the simulation running
+        const terminate = args.terminateDebuggee !== undefined ? args.terminateDebuggee : !this._isAttach;
+        try {
+            if (terminate) {
+                await this._runtime.stop();
+            } else {
+                await this._runtime.detach();
+            }
+        } catch (error) {
+            // the connection is going away anyway
+        }
+        super.disconnectRequest(response, args, request);
     }
 
     protected async stepBackRequest(response: DebugProtocol.StepBackResponse, args: DebugProtocol.StepBackArguments, request?: DebugProtocol.Request) {
-        await this._runtime.stepBack();
-        this.sendResponse(response);
+        await this.runRuntimeCommand(response, () => this._runtime.stepBack());
     }
 
     protected async reverseContinueRequest(response: DebugProtocol.ReverseContinueResponse, args: DebugProtocol.ReverseContinueArguments, request?: DebugProtocol.Request) {
-        await this._runtime.reverseContinue();
+        await this.runRuntimeCommand(response, () => this._runtime.reverseContinue());
+    }
+
+    protected async restartRequest(response: DebugProtocol.RestartResponse, args: DebugProtocol.RestartArguments, request?: DebugProtocol.Request) {
+        await this.runRuntimeCommand(response, () => this._runtime.restart());
+    }
+
+    protected async pauseRequest(response: DebugProtocol.PauseResponse, args: DebugProtocol.PauseArguments, request?: DebugProtocol.Request) {
+        await this.runRuntimeCommand(response, () => this._runtime.pause());
+    }
+
+    protected async gotoTargetsRequest(response: DebugProtocol.GotoTargetsResponse, args: DebugProtocol.GotoTargetsArguments, request?: DebugProtocol.Request) {
+        let targets: Array<BreakpointLocation> = [];
+        if (args.source.path) {
+            try {
+                targets = await this._runtime.getGotoTargets(args.source.path, this.convertClientLineToDebugger(args.line));
+            } catch (error) {
+                this.sendRuntimeErrorResponse(response, error);
+                return;
+            }
+        }
+        // every instance that shares the line has its own breakpoint id
+        response.body = {
+            targets: targets.map(bp => {
+                const target: DebugProtocol.GotoTarget = {
+                    id: bp.id,
+                    label: `Breakpoint ${bp.id} (${basename(bp.filename)}:${bp.line_num})`,
+                    line: this.convertDebuggerLineToClient(bp.line_num)
+                };
+                if (bp.column_num > 0) {
+                    target.column = this.convertDebuggerColumnToClient(bp.column_num);
+                }
+                return target;
+            })
+        };
+        this.sendResponse(response);
+    }
+
+    protected async gotoRequest(response: DebugProtocol.GotoResponse, args: DebugProtocol.GotoArguments, request?: DebugProtocol.Request) {
+        await this.runRuntimeCommand(response, () => this._runtime.goto(args.targetId));
+    }
+
+    protected async customRequest(command: string, response: DebugProtocol.Response, args: any, request?: DebugProtocol.Request) {
+        // issued by the extension commands
+        if (command === 'runToTime') {
+            await this.runRuntimeCommand(response, () => this._runtime.runToTime(Number(args.time)));
+        } else if (command === 'stepCycles') {
+            await this.runRuntimeCommand(response, () => this._runtime.stepCycles(Number(args.cycles)));
+        } else if (command === 'setValueFormat') {
+            if (ValueFormats.indexOf(args.format) < 0) {
+                this.sendErrorResponse(response, 1001, `Unknown value format ${args.format}`);
+                return;
+            }
+            if (args.variablesReference === undefined || this._variableHandles.get(args.variablesReference) === undefined) {
+                this.sendErrorResponse(response, 1001, `Unknown variable ${args.name}`);
+                return;
+            }
+            const info = this.getVariableInfo(args.name, args.variablesReference);
+            this._valueFormats.set(HGDBDebugSession.valueFormatKey(info.fullName, info.instance_id, info.is_local), args.format);
+            this.sendResponse(response);
+            // values shown in the Variables view have to be fetched again
+            this.sendEvent(new InvalidatedEvent(['variables']));
+        } else {
+            super.customRequest(command, response, args, request);
+        }
+    }
+
+    protected async stepInRequest(response: DebugProtocol.StepInResponse, args: DebugProtocol.StepInArguments, request?: DebugProtocol.Request) {
+        // thread id is the instance id
+        await this.runRuntimeCommand(response, () => this._runtime.stepIn(args.threadId, args.targetId));
+    }
+
+    protected async stepOutRequest(response: DebugProtocol.StepOutResponse, args: DebugProtocol.StepOutArguments, request?: DebugProtocol.Request) {
+        await this.runRuntimeCommand(response, () => this._runtime.stepOut(args.threadId));
+    }
+
+    protected async stepInTargetsRequest(response: DebugProtocol.StepInTargetsResponse, args: DebugProtocol.StepInTargetsArguments, request?: DebugProtocol.Request) {
+        const instance_id = HGDBRuntime.getInstanceFrameID(args.frameId)[0];
+        let targets: Array<StepInTarget>;
+        try {
+            targets = await this._runtime.getStepInTargets(instance_id);
+        } catch (error) {
+            this.sendRuntimeErrorResponse(response, error);
+            return;
+        }
+        response.body = {
+            targets: targets.map(target => {
+                return {id: target.id, label: `${target.name} (${basename(target.filename)}:${target.line_num})`};
+            })
+        };
         this.sendResponse(response);
     }
 
@@ -678,19 +1313,51 @@ export class HGDBDebugSession extends LoggingDebugSession {
     }
 
     protected async setVariableRequest(response: DebugProtocol.SetVariableResponse, args: DebugProtocol.SetVariableArguments, request?: DebugProtocol.Request) {
-        const int_value: number = parseInt(args.value);
         // compute based on the handle str
         const info = this.getVariableInfo(args.name, args.variablesReference);
-        const res = await this._runtime.setValue(info.fullName, int_value, info.instance_id, info.is_local);
-        response.success = res;
-        if (res) {
-            response.body = {value: args.value};
-            this.sendResponse(response);
+        let value: string;
+        try {
+            value = await this._runtime.setValue(info.fullName, args.value, info.instance_id, info.is_local);
+        } catch (error) {
+            this.sendRuntimeErrorResponse(response, error);
+            return;
         }
+        response.body = {
+            value: await this.formatVariable(value, info.fullName, info.instance_id, info.is_local, args.format)
+        };
+        this.sendResponse(response);
     }
 
     //---- helpers
 
+    private clearReconnectStatus() {
+        if (this._reconnectStatus) {
+            this._reconnectStatus.dispose();
+            this._reconnectStatus = undefined;
+        }
+    }
+
+    private async runRuntimeCommand(response: DebugProtocol.Response, command: () => Promise<void>) {
+        try {
+            await command();
+        } catch (error) {
+            this.sendRuntimeErrorResponse(response, error);
+            return;
+        }
+        this.sendResponse(response);
+    }
+
+    private sendContinuedEvent() {
+        const thread_id = this._threads.length > 0 ? this._threads[0].id : 0;
+        this.sendEvent(new ContinuedEvent(thread_id, true));
+    }
+
+    private sendRuntimeErrorResponse(response: DebugProtocol.Response, error: any) {
+        // runtime errors are HGDBRequestError in most cases
+        const message = error instanceof Error ? error.message : `${error}`;
+        this.sendErrorResponse(response, 1001, message);
+    }
+
     private _getInstanceID(ref: number | undefined) {
         if (ref === undefined) {
             return undefined;
@@ -0,0 +1,262 @@
+// typed definitions of the JSON messages exchanged with the hgdb runtime server.
+// every request carries a token, and the server echoes the token back in the response,
+// so requests and responses are matched by token rather than by type
+
+
+export type RequestType = "connection" | "bp-location" | "breakpoint" | "breakpoint-id" | "command" |
+    "debugger-info" | "evaluation" | "set-value" | "data-breakpoint" | "option-change" | "step-in-targets" |
+    "type-info" | "array-values";
+
+export type CommandType = "continue" | "stop" | "step_over" | "step_back" | "reverse_continue" | "step_in" | "step_out" |
+    "run_to_time" | "step_cycles" | "jump";
+
+export type DebuggerInfoType = "breakpoints" | "status" | "filename" | "options";
+
+export interface ConnectionRequest {
+    db_filename: string;
+    path_mapping?: { [src: string]: string };
+}
+
+export interface BreakpointLocationRequest {
+    filename: string;
+    line_num: number;
+    column_num?: number;
+}
+
+export interface BreakpointRequest {
+    filename: string;
+    action: "add" | "remove";
+    line_num?: number;
+    column_num?: number;
+    condition?: string;
+}
+
+export interface BreakpointIDRequest {
+    id: number;
+    action: "add" | "remove";
+    condition?: string;
+}
+
+export interface CommandRequest {
+    command: CommandType;
+    // scope to step in or out of. used by step_in and step_out
+    breakpoint_id?: number;
+    // child scope to step into when the line maps to several of them
+    target?: number;
+    // simulation time to stop at. used by run_to_time and jump
+    time?: number;
+    // number of clock cycles to advance. used by step_cycles
+    cycles?: number;
+}
+
+export interface DebuggerInfoRequest {
+    command: DebuggerInfoType;
+}
+
+export interface EvaluationRequest {
+    expression: string;
+    namespace_id: number;
+    breakpoint_id?: number;
+    instance_id?: number;
+}
+
+export interface SetValueRequest {
+    var_name: string;
+    // values that do not fit in a double are sent as decimal strings
+    value: number | string;
+    breakpoint_id?: number;
+    namespace_id?: number;
+    instance_id?: number;
+}
+
+export interface DataBreakpointRequest {
+    action: "add" | "remove" | "clear" | "info";
+    var_name?: string;
+    "breakpoint-id"?: number;
+    condition?: string;
+}
+
+export interface StepInTargetsRequest {
+    breakpoint_id: number;
+}
+
+export interface TypeInfoRequest {
+    // every variable of a scope is looked up in one request. names are the same as in breakpoint
+    // frames, e.g. mem[3]
+    var_names: Array<string>;
+    // local variables are looked up in the breakpoint scope, generator variables in the instance
+    breakpoint_id?: number;
+    instance_id?: number;
+}
+
+export interface ArrayValuesRequest {
+    var_name: string;
+    // index of the first element and number of elements to fetch
+    start: number;
+    count: number;
+    breakpoint_id?: number;
+    namespace_id?: number;
+    instance_id?: number;
+}
+
+export interface OptionChangeRequest {
+    [option: string]: boolean | number | string;
+}
+
+export interface BreakpointLocation {
+    id: number;
+    filename: string;
+    line_num: number;
+    column_num: number;
+}
+
+// child scope reachable from a breakpoint, e.g. a function call or a submodule instantiation
+export interface StepInTarget {
+    id: number;
+    name: string;
+    filename: string;
+    line_num: number;
+    column_num: number;
+}
+
+export interface EnumMember {
+    name: string;
+    // wide values are sent as decimal strings
+    value: number | string;
+}
+
+// type of a signal from the symbol table
+export interface TypeInfo {
+    width: number;
+    signed: boolean;
+    // packed dimensions, outermost first. not set for plain vectors
+    packed?: Array<number>;
+    // unpacked dimensions, outermost first. only set for arrays
+    unpacked?: Array<number>;
+    enum_name?: string;
+    enum_members?: Array<EnumMember>;
+}
+
+export interface EvaluationResponse {
+    result: string;
+}
+
+export interface ErrorResponse {
+    reason: string;
+}
+
+export interface RequestPayloads {
+    "connection": ConnectionRequest;
+    "bp-location": BreakpointLocationRequest;
+    "breakpoint": BreakpointRequest;
+    "breakpoint-id": BreakpointIDRequest;
+    "command": CommandRequest;
+    "debugger-info": DebuggerInfoRequest;
+    "evaluation": EvaluationRequest;
+    "set-value": SetValueRequest;
+    "data-breakpoint": DataBreakpointRequest;
+    "option-change": OptionChangeRequest;
+    "step-in-targets": StepInTargetsRequest;
+    "type-info": TypeInfoRequest;
+    "array-values": ArrayValuesRequest;
+}
+
+export interface ResponsePayloads {
+    "connection": {};
+    "bp-location": Array<BreakpointLocation>;
+    "breakpoint": {};
+    "breakpoint-id": {};
+    "command": {};
+    // the content depends on the info command
+    "debugger-info": any;
+    "evaluation": EvaluationResponse;
+    "set-value": {};
+    "data-breakpoint": {};
+    "option-change": {};
+    "step-in-targets": Array<StepInTarget>;
+    // variables unknown to the simulator are left out
+    "type-info": { [name: string]: TypeInfo };
+    // element values keyed by full name, e.g. mem[3] or mem[3].valid, same as in breakpoint frames
+    "array-values": { [name: string]: string };
+}
+
+export interface Request<T extends RequestType> {
+    request: true;
+    type: T;
+    token: string;
+    payload: RequestPayloads[T];
+}
+
+export interface Response {
+    request?: false;
+    type: string;
+    status: "success" | "error";
+    token?: string;
+    payload: any;
+}
+
+// breakpoint types the server reports for simulator errors instead of user breakpoints
+export type ExceptionType = "assertion" | "error" | "x-propagation";
+
+export const ExceptionTypes: Array<ExceptionType> = ["assertion", "error", "x-propagation"];
+
+// server options that enable each exception type
+export const ExceptionOptions: { [type in ExceptionType]: string } = {
+    "assertion": "break_on_assertion",
+    "error": "break_on_error",
+    "x-propagation": "break_on_x_propagation"
+};
+
+/**
+ * One instance entry inside a breakpoint frame sent by the server
+ */
+export interface BreakpointFrameInstance {
+    instance_id: number;
+    instance_name: string;
+    breakpoint_id: number;
+    namespace_id: number;
+    bp_type: string;
+    local: { [name: string]: string };
+    generator: { [name: string]: string };
+    // arrays with more elements than the array_size_limit option are left out of local and
+    // generator. only their sizes are sent, and the elements are fetched with array-values
+    local_arrays?: { [name: string]: number };
+    generator_arrays?: { [name: string]: number };
+}
+
+/**
+ * Server-initiated message when the simulator hits a breakpoint
+ */
+export interface BreakpointFrame {
+    filename: string;
+    line_num: number;
+    column_num: number;
+    time: number;
+    instances: Array<BreakpointFrameInstance>;
+    var?: string;
+    // description of the failure for exception frames, e.g. the assertion message
+    reason?: string;
+}
+
+export enum RequestErrorKind {
+    // server replied with an error status
+    Server = "server",
+    // server did not reply in time
+    Timeout = "timeout",
+    // connection closed before the server replied
+    Closed = "closed",
+    // unable to reach the server at all
+    Connection = "connection"
+}
+
+export class HGDBRequestError extends Error {
+    public readonly kind: RequestErrorKind;
+    public readonly requestType: RequestType | undefined;
+
+    constructor(kind: RequestErrorKind, message: string, requestType?: RequestType) {
+        super(message);
+        this.name = "HGDBRequestError";
+        this.kind = kind;
+        this.requestType = requestType;
+    }
+}
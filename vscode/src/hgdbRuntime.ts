@@ -2,6 +2,12 @@ import {EventEmitter} from 'events';
 import * as path from 'path';
 import * as ws from 'websocket';
 import * as util from './util';
+import {getFreePort, HGDBSimulator, SimulatorOptions} from './hgdbSimulator';
+import {
+    BreakpointFrame, BreakpointFrameInstance, CommandType, DebuggerInfoType, ExceptionOptions, ExceptionType,
+    ExceptionTypes, HGDBRequestError, Request, RequestErrorKind, RequestPayloads,
+    RequestType, Response, ResponsePayloads, TypeInfo
+} from './hgdbProtocol';
 
 
 export interface HGDBBreakpoint {
@@ -12,11 +18,119 @@ export interface HGDBBreakpoint {
     column_num: number;
 }
 
+interface PendingRequest {
+    type: RequestType;
+    timeout: number;
+    timer?: NodeJS.Timer;
+    resolve: (payload: any) => void;
+    reject: (error: HGDBRequestError) => void;
+}
+
+export interface BreakpointOptions {
+    condition?: string;
+    // logpoints print the message and never stop
+    logMessage?: string;
+    hitCondition?: string;
+}
+
+export interface HGDBExceptionInfo {
+    type: ExceptionType;
+    description: string;
+}
+
+export interface HGDBDataBreakpoint {
+    // persistent id created by getDataBreakpointID
+    dataId: string;
+    condition?: string;
+    hitCondition?: string;
+}
+
+export interface HGDBDataBreakpointStatus {
+    verified: boolean;
+    message?: string;
+}
+
+// content of a data id. it only uses names and source locations, which stay the same across sessions
+interface WatchpointLocation {
+    instance: string;
+    var: string;
+    filename: string;
+    line: number;
+}
+
+interface DataBreakpointEntry {
+    // number shown in the Debug Console
+    number: number;
+    location: WatchpointLocation;
+    // undefined until the watchpoint is resolved against the symbol table
+    breakpoint_id: number | undefined;
+    condition: string;
+    hitCondition?: string;
+    // set through the Debug Console instead of VS Code
+    fromConsole: boolean;
+}
+
+// array left out of the breakpoint payload
+interface LazyArray {
+    // name used by the simulator
+    name: string;
+    size: number;
+}
+
+interface FrameArrays {
+    local: Map<string, LazyArray>;
+    generator: Map<string, LazyArray>;
+}
+
+export interface HGDBWatchpoint {
+    number: number;
+    instance: string;
+    var: string;
+    condition: string;
+    resolved: boolean;
+    fromConsole: boolean;
+}
+
+// default time in ms to wait for a server response
+const DEFAULT_REQUEST_TIMEOUT = 10000;
+// arrays with more elements are fetched page by page when expanded. same as the page size of VS Code
+const DEFAULT_ARRAY_SIZE_LIMIT = 100;
+// upper bound of the reconnection backoff
+const MAX_RECONNECT_DELAY = 30000;
+// how often to poll when waiting for the simulator to start listening
+const WAIT_POLL_INTERVAL = 1000;
+// how long to wait for a spawned simulator if no wait timeout is given
+const DEFAULT_SPAWN_WAIT_TIMEOUT = 60000;
+
+// commands handled by handleREPL instead of being evaluated by the server
+export const REPLCommands = ["scope-namespace", "scope-breakpoint", "clear", "run-to-time", "step-cycles"];
+
 
 export class HGDBRuntime extends EventEmitter {
 
     // maps from id to the actual breakpoint
     private _breakPoints = new Map<number, HGDBBreakpoint>();
+    // breakpoints inserted into the simulator, maps from id to its options.
+    // used to restore the session after reconnection
+    private _activeBreakpoints = new Map<number, BreakpointOptions>();
+    // data breakpoints inserted into the simulator, indexed by data id
+    private _dataBreakpoints = new Map<string, DataBreakpointEntry>();
+    // number of times each breakpoint id has been hit, counting every instance in the frame
+    private _hitCounts = new Map<number, number>();
+    private _nextWatchpointNumber = 1;
+    // same as above, for data breakpoints indexed by data id
+    private _dataHitCounts = new Map<string, number>();
+    // data breakpoints that triggered the current stop
+    private _currentWatchpoints = new Array<string>();
+    // instance paths or globs to stop in, set through function breakpoints
+    private _instanceBreakpoints = new Array<string>();
+    // continue is implemented as repeated step over while instance breakpoints are set
+    private _scanning = false;
+    // whether the last stop was caused only by instance breakpoints
+    private _stopOnInstance = false;
+    // enabled exception breakpoint types
+    private _exceptionTypes = new Array<ExceptionType>();
+    private _currentException: HGDBExceptionInfo | undefined;
 
     private _currentLocalVariables = new Map<number, Array<Map<string, string>>>();
     private _currentGeneratorNames = new Map<number, string>();
@@ -24,15 +138,45 @@ export class HGDBRuntime extends EventEmitter {
     private _currentNamespaceIDs = new Map<number, number>();
     private _currentGeneratorVariables = new Map<number, Array<Map<string, string>>>();
     private _currentBreakpointTypes = new Map<number, string>();
+    // arrays not shipped with the breakpoint, per instance and stack frame
+    private _currentArrays = new Map<number, Array<FrameArrays>>();
+    // pages of array elements already fetched in the current frame
+    private _fetchedArrayPages = new Set<string>();
+    private _arraySizeLimit = DEFAULT_ARRAY_SIZE_LIMIT;
     private _currentTime = 0;
+    // stop at the next breakpoint location regardless of user breakpoints
+    private _pausing = false;
+    // breakpoint id to jump to. every other location is skipped until it is reached
+    private _gotoTarget: number | undefined;
+    // run to time or cycle stepping command in flight. the server stops at the target
+    // unless a user breakpoint fires first
+    private _runCommand: RequestPayloads["command"] | undefined;
+    // command that caused the next stop. undefined while the simulation runs on its own
+    private _lastCommand: CommandType | undefined;
+
+    // types never change during a session. undefined means the simulator does not know the variable
+    private _typeCache = new Map<string, TypeInfo | undefined>();
 
     // need to pull this from configuration
     private _runtimeIP = "0.0.0.0";
     private _runtimePort = 8888;
     private _connected = false;
-    // websocket client
-    private _ws: ws.client = new ws.client();
+    private _stopping = false;
+    // websocket connection
     private _connection: ws.connection | undefined;
+    // symbol table used by the current session
+    private _program: string = "";
+
+    // reconnection setting. 0 attempts means never reconnect
+    private _reconnectAttempts = 0;
+    private _reconnectDelay = 1000;
+    private _reconnecting = false;
+
+    // time in ms to keep polling for the simulator at startup. 0 means only try once
+    private _waitTimeout = 0;
+
+    // simulator process spawned by the debugger, if any
+    private _simulator: HGDBSimulator | undefined;
 
     private _currentFilename: string = "";
     private _currentLineNum: number = 1;
@@ -40,8 +184,8 @@ export class HGDBRuntime extends EventEmitter {
 
     private readonly _workspaceDir: string;
 
-    private _srcPath: string = "";
-    private _dstPath: string = "";
+    // local <-> remote source path translation
+    private _pathMappings = new Array<util.PathMapping>();
 
     // scope for repl
     private _currentBreakpointID: number = 0;
@@ -49,12 +193,13 @@ export class HGDBRuntime extends EventEmitter {
 
     // token id
     private _tokenCount: number = 0;
-    // token based callback
-    private _tokenCallbacks = new Map<string, Function>();
+    // requests waiting for a response, indexed by token
+    private _pendingRequests = new Map<string, PendingRequest>();
+    private _requestTimeout = DEFAULT_REQUEST_TIMEOUT;
 
     // pending requests. this is basically a queue of requests
     // needed to send before the debug server is connected
-    private _queuedPayload = new Array<object>();
+    private _queuedPayload = new Array<Request<RequestType>>();
 
 
     public currentFilename() {
@@ -81,6 +226,32 @@ export class HGDBRuntime extends EventEmitter {
         return this._currentGeneratorNames;
     }
 
+    public getCurrentTime() {
+        return this._currentTime;
+    }
+
+    /**
+     * Variable and instance names known at the current frame, in the dotted form.
+     * Only the variables of the given instance are included if instance_id is set
+     */
+    public getCompletionNames(instance_id?: number) {
+        let names = new Array<string>();
+        const add_names = (frames: Array<Map<string, string>> | undefined) => {
+            if (frames) {
+                frames.forEach(vars => vars.forEach((_, name) => names.push(name)));
+            }
+        };
+        if (instance_id !== undefined) {
+            add_names(this._currentLocalVariables.get(instance_id));
+            add_names(this._currentGeneratorVariables.get(instance_id));
+        } else {
+            this._currentLocalVariables.forEach(add_names);
+            this._currentGeneratorVariables.forEach(add_names);
+        }
+        this._currentGeneratorNames.forEach(name => names.push(util.convertToDot(name)));
+        return names;
+    }
+
     public setRuntimeIP(ip: string) {
         this._runtimeIP = ip;
     }
@@ -89,12 +260,64 @@ export class HGDBRuntime extends EventEmitter {
         this._runtimePort = port;
     }
 
-    public setSrcPath(path: string) {
-        this._srcPath = path;
+    public setPathMappings(mappings: Array<util.PathMapping>) {
+        this._pathMappings = mappings;
+    }
+
+    public setRequestTimeout(timeout: number) {
+        this._requestTimeout = timeout;
+    }
+
+    /**
+     * Arrays with more elements than the limit are fetched on demand. 0 ships every element
+     */
+    public setArraySizeLimit(limit: number) {
+        this._arraySizeLimit = limit;
+    }
+
+    public setReconnect(attempts: number, delay: number) {
+        this._reconnectAttempts = attempts;
+        this._reconnectDelay = delay;
+    }
+
+    public setInstanceBreakpoints(patterns: Array<string>) {
+        this._instanceBreakpoints = patterns;
+    }
+
+    /**
+     * Ask the simulator to stop on the given types of failures. Returns false if the simulator
+     * does not support the options
+     */
+    public async setExceptionBreakpoints(types: Array<ExceptionType>) {
+        this._exceptionTypes = types;
+        try {
+            await this.sendExceptionOptions();
+        } catch (error) {
+            if (error.kind !== RequestErrorKind.Server) {
+                throw error;
+            }
+            return false;
+        }
+        return true;
+    }
+
+    public getExceptionInfo() {
+        return this._currentException;
+    }
+
+    public setWaitTimeout(timeout: number) {
+        this._waitTimeout = timeout;
     }
 
-    public setDstPath(path: string) {
-        this._dstPath = path;
+    public setSimulator(options: SimulatorOptions) {
+        const simulator = new HGDBSimulator(options);
+        simulator.on("output", (text: string, category: string) => {
+            this.sendEvent("output", text, category);
+        });
+        simulator.on("exit", (code: number | null) => {
+            this.sendEvent("output", `Simulator exited with code ${code}\n`, "console");
+        });
+        this._simulator = simulator;
     }
 
     constructor(workspace_dir: string) {
@@ -104,43 +327,210 @@ export class HGDBRuntime extends EventEmitter {
 
     /**
      * Start executing the given program.
+     * If a wait timeout is set, keep polling until the simulator is listening or is_cancelled returns true
      */
-    public async start(program: string) {
-        // setting up the
-        this._ws.on("connectFailed", (error) => {
-            this.sendEvent("errorMessage", `Unable to connect to simulator using port ${this._runtimePort}: ${error}`);
-        });
-
-        let promise = new Promise<void>((resolve, reject) => {
-            this._ws.on("connect", async (connection) => {
-                // we have successfully connected to the runtime server
+    public async start(program: string, is_cancelled?: () => boolean) {
+        this._program = program;
+        await this.launch(false, is_cancelled);
+    }
 
-                this._connection = connection;
-                // need to add more handles
-                this.setConnection(connection);
+    private async launch(restore: boolean, is_cancelled?: () => boolean) {
+        if (this._simulator) {
+            // the debug server runs on the local machine
+            this._runtimeIP = "127.0.0.1";
+            this._runtimePort = await getFreePort();
+            this._simulator.start(this._runtimePort);
+            if (this._waitTimeout === 0) {
+                this._waitTimeout = DEFAULT_SPAWN_WAIT_TIMEOUT;
+            }
+        }
+        // connect to specified port
+        let connection: ws.connection;
+        try {
+            connection = this._waitTimeout > 0 ? await this.waitForSimulator(is_cancelled) : await this.connect();
+        } catch (error) {
+            // requests issued while configuring the session would wait forever
+            this.rejectQueuedRequests(new HGDBRequestError(RequestErrorKind.Connection, "Unable to connect to simulator"));
+            throw error;
+        }
+        await this.initConnection(connection, restore);
 
-                // reject the promise if something wrong happens
-                this.on("errorMessage", () => {
-                    reject();
-                });
+        // let the debugger know that we have properly connected and enter interactive mode
+        this.sendEvent('stopOnEntry');
+    }
 
-                await this.connectRuntime(program);
+    /**
+     * Start over from time zero. Simulators that support reverse execution are rewound in place,
+     * otherwise the spawned simulator is started again. Breakpoints are kept in both cases
+     */
+    public async restart(is_cancelled?: () => boolean) {
+        this.clearRunState();
+        if (this._connected && await this.succeeded(this.sendRequest("command", {"command": "jump", "time": 0}))) {
+            this.clearFrameInfo();
+            this._currentTime = 0;
+            // the simulator runs again from the start until it hits a breakpoint
+            this.sendEvent("continued");
+            return;
+        }
+        if (!this._simulator) {
+            throw new Error("Unable to restart: the simulator does not support rewinding and was not launched by the debugger");
+        }
+        // the old connection going away must not end the session
+        this._reconnecting = true;
+        try {
+            await this.closeConnection();
+            await this._simulator.stop();
+            this.clearFrameInfo();
+            this._currentTime = 0;
+            await this.launch(true, is_cancelled);
+        } finally {
+            this._reconnecting = false;
+        }
+    }
 
-                // if there is any queued payload, this is the time to send out
-                for (let i = 0; i < this._queuedPayload.length; i++) {
-                    await this.sendPayload(this._queuedPayload[i]);
-                }
-                this._queuedPayload.length = 0;
+    private clearRunState() {
+        this._scanning = false;
+        this._pausing = false;
+        this._gotoTarget = undefined;
+        this._runCommand = undefined;
+        this._lastCommand = undefined;
+        this._hitCounts.clear();
+        this._dataHitCounts.clear();
+    }
 
-                // let the debugger know that we have properly connected and enter interactive mode
-                this.sendEvent('stopOnEntry');
+    private closeConnection() {
+        return new Promise<void>((resolve) => {
+            const connection = this._connection;
+            if (!connection) {
                 resolve();
+                return;
+            }
+            // the close handler registered in setConnection runs first
+            connection.once("close", () => resolve());
+            connection.close();
+        });
+    }
+
+    /**
+     * Open a new websocket connection to the simulator
+     */
+    private connect() {
+        const client = new ws.client();
+        return new Promise<ws.connection>((resolve, reject) => {
+            client.on("connectFailed", (error) => {
+                reject(new HGDBRequestError(RequestErrorKind.Connection,
+                    `Unable to connect to simulator using port ${this._runtimePort}: ${error}`));
             });
+            client.on("connect", (connection) => {
+                resolve(connection);
+            });
+            client.connect(`ws://${this._runtimeIP}:${this._runtimePort}`);
         });
+    }
 
-        // connect to specified port
-        await this._ws.connect(`ws://${this._runtimeIP}:${this._runtimePort}`);
-        await promise;
+    private async waitForSimulator(is_cancelled?: () => boolean) {
+        const deadline = Date.now() + this._waitTimeout;
+        const cancelled = () => is_cancelled !== undefined && is_cancelled();
+        for (let attempt = 1; ; attempt++) {
+            try {
+                return await this.connect();
+            } catch (error) {
+                const remaining = deadline - Date.now();
+                if (remaining <= 0) {
+                    throw new HGDBRequestError(RequestErrorKind.Connection,
+                        `Simulator is not listening on port ${this._runtimePort} after ${this._waitTimeout / 1000} seconds`);
+                }
+                this.sendEvent("waitingForSimulator", attempt, remaining);
+                await util.sleep(Math.min(WAIT_POLL_INTERVAL, remaining));
+                if (cancelled()) {
+                    throw new HGDBRequestError(RequestErrorKind.Connection, "Cancelled waiting for simulator");
+                }
+                if (this._simulator && !this._simulator.isRunning()) {
+                    throw new HGDBRequestError(RequestErrorKind.Connection,
+                        `Simulator exited with code ${this._simulator.exitCode()} before the debug server started`);
+                }
+            }
+        }
+    }
+
+    private async initConnection(connection: ws.connection, restore: boolean) {
+        // we have successfully connected to the runtime server
+        this._connection = connection;
+        // need to add more handles
+        this.setConnection(connection);
+
+        await this.connectRuntime(this._program);
+        if (this._arraySizeLimit > 0) {
+            // older simulators do not know the option and ship every element
+            await this.succeeded(this.sendRequest("option-change", {"array_size_limit": this._arraySizeLimit}));
+        }
+
+        if (restore) {
+            await this.restoreBreakpoints();
+        }
+
+        // if there is any queued payload, this is the time to send out
+        const queued = this._queuedPayload.splice(0);
+        for (let i = 0; i < queued.length; i++) {
+            await this.sendPayload(queued[i]);
+        }
+    }
+
+    // a spawned simulator that has exited cannot be reconnected to
+    private simulatorExited() {
+        return this._simulator !== undefined && !this._simulator.isRunning();
+    }
+
+    /**
+     * Retry the connection with exponential backoff after the connection drops unexpectedly.
+     * Requests issued in the meantime are queued and sent once the session is restored
+     */
+    private async reconnect() {
+        this._reconnecting = true;
+        let delay = this._reconnectDelay;
+        for (let attempt = 1; attempt <= this._reconnectAttempts && !this._stopping && !this.simulatorExited(); attempt++) {
+            this.sendEvent("reconnecting", attempt, this._reconnectAttempts);
+            await util.sleep(delay);
+            try {
+                const connection = await this.connect();
+                await this.initConnection(connection, true);
+                this._reconnecting = false;
+                this.sendEvent("reconnected");
+                return;
+            } catch (error) {
+                // drop the half-open connection, if any, before trying again
+                this._connection?.close();
+                delay = Math.min(delay * 2, MAX_RECONNECT_DELAY);
+            }
+        }
+
+        this._reconnecting = false;
+        // nothing queued will ever be sent
+        const error = new HGDBRequestError(RequestErrorKind.Closed, "Unable to reconnect to simulator");
+        this.rejectQueuedRequests(error);
+        this.rejectPendingRequests(error);
+        this.sendEvent('end');
+    }
+
+    private async restoreBreakpoints() {
+        for (const [id, options] of Array.from(this._activeBreakpoints.entries())) {
+            await this.setBreakpoint(id, options.condition, options.logMessage, options.hitCondition);
+        }
+        if (this._exceptionTypes.length > 0) {
+            // not every simulator supports these options, which should not fail the reconnection
+            await this.succeeded(this.sendExceptionOptions());
+        }
+        for (const entry of Array.from(this._dataBreakpoints.values())) {
+            if (entry.breakpoint_id === undefined) {
+                continue;
+            }
+            await this.sendRequest("data-breakpoint", {
+                "var_name": entry.location.var,
+                "breakpoint-id": entry.breakpoint_id,
+                "condition": entry.condition,
+                "action": "add"
+            });
+        }
     }
 
     private setConnection(connection: ws.connection) {
@@ -150,69 +540,140 @@ export class HGDBRuntime extends EventEmitter {
             if (!str_data) {
                 return;
             }
-            const resp = JSON.parse(str_data);
-            const status = resp.status;
-            if (status !== "success") {
+            const resp: Response = JSON.parse(str_data);
+
+            // we use token based req-resp here
+            // each response will have a unique token matching with the request
+            // so we don't need to check response type at all
+            if (resp.token && this.settleRequest(resp)) {
+                return;
+            }
+
+            if (resp.status !== "success") {
                 this.sendEvent("errorMessage", resp.payload.reason);
+                return;
             }
 
-            // switch between different response types
-            const resp_type = resp.type;
-            switch (resp_type) {
-                case "breakpoint": {
-                    // breakpoint response is server initialized
-                    this.onBreakpoint(resp.payload);
-                    break;
-                }
-                default:
-                    // we use token based req-resp here
-                    // each response will have a unique token matching with the request
-                    // so we don't need to check response type at all
-                    const token = resp.token;
-                    if (token) {
-                        const cb = this._tokenCallbacks.get(token);
-                        if (cb) {
-                            cb(resp);
-                            this._tokenCallbacks.delete(token);
-                        }
-                    }
+            if (resp.type === "breakpoint") {
+                // breakpoint response is server initialized
+                const payload: BreakpointFrame = resp.payload;
+                const is_exception = payload.instances.some(HGDBRuntime.isException);
+                this.onBreakpoint(payload, is_exception).catch((error) => {
+                    this.sendEvent("errorMessage", error.message);
+                });
             }
         };
         // without the bind it will not work. glorious ts/js
         connection.on("message", callback.bind(this));
 
         // if server closes first
-        let close_cb = () => {
-            this.sendEvent('end');
+        let close_cb = (code: number) => {
+            this._connection = undefined;
+            this.rejectPendingRequests(new HGDBRequestError(RequestErrorKind.Closed, "Connection to simulator closed"));
+            // the server closes the connection normally when the simulation finishes
+            const lost = this._connected && !this._stopping && !this.simulatorExited() &&
+                code !== ws.connection.CLOSE_REASON_NORMAL && code !== ws.connection.CLOSE_REASON_GOING_AWAY;
+            this._connected = false;
+            if (this._reconnecting) {
+                // failed attempts are handled by the reconnection loop
+                return;
+            }
+            if (lost && this._reconnectAttempts > 0) {
+                this.reconnect();
+            } else {
+                this.sendEvent('end');
+            }
         };
         connection.on("close", close_cb.bind(this));
     }
 
     public async stop() {
-        await this.sendCommand("stop");
-        this._connected = false;
-        await this._connection?.close();
+        this._stopping = true;
+        if (!this._connection) {
+            // nothing to stop. requests sent now would sit in the queue forever
+            this._connected = false;
+            this.rejectQueuedRequests(new HGDBRequestError(RequestErrorKind.Closed, "Debug session stopped"));
+            this.killSimulator();
+            return;
+        }
+        try {
+            await this.sendCommand("stop");
+        } finally {
+            this._connected = false;
+            await this._connection?.close();
+            this.killSimulator();
+        }
+    }
+
+    /**
+     * Remove all breakpoints and let the simulation keep running before closing the connection
+     */
+    public async detach() {
+        this._stopping = true;
+        if (!this._connection) {
+            this._connected = false;
+            this.rejectQueuedRequests(new HGDBRequestError(RequestErrorKind.Closed, "Debug session stopped"));
+            return;
+        }
+        try {
+            for (const id of Array.from(this._activeBreakpoints.keys())) {
+                await this.sendRequest("breakpoint-id", {"id": id, "action": "remove"});
+                this._activeBreakpoints.delete(id);
+            }
+            await this.clearDataBreakpoints();
+            // nobody is left to handle the simulation stopping on a failure.
+            // not every simulator supports these options
+            await this.succeeded(this.sendExceptionOptions([]));
+            try {
+                await this.sendCommand("continue");
+            } catch (error) {
+                // the simulation may be running already
+                if (error.kind !== RequestErrorKind.Server) {
+                    throw error;
+                }
+            }
+        } finally {
+            this._connected = false;
+            await this._connection?.close();
+        }
+    }
+
+    /**
+     * Kill the simulator process if it was spawned by the debugger
+     */
+    public killSimulator() {
+        this._simulator?.kill();
+    }
+
+    private clearFrameInfo() {
+        this._currentLocalVariables.clear();
+        this._currentGeneratorVariables.clear();
+        this._currentGeneratorNames.clear();
+        this._currentBreakpointIDs.clear();
+        this._currentBreakpointTypes.clear();
+        this._currentArrays.clear();
+        this._fetchedArrayPages.clear();
     }
 
-    private addFrameInfo(payload: Object) {
-        this._currentFilename = payload["filename"];
-        this._currentLineNum = Number.parseInt(payload["line_num"]);
-        const col = Number.parseInt(payload["col_num"]);
+    private addFrameInfo(payload: BreakpointFrame) {
+        this._currentFilename = this.toLocalPath(payload.filename);
+        this._currentLineNum = payload.line_num;
+        const col = payload.column_num;
         if (col !== undefined && col > 0) {
             this._currentColNum = col;
         } else {
             this._currentColNum = undefined;
         }
 
-        const instances: Array<any> = payload["instances"];
+        const instances = payload.instances;
         for (let i = 0; i < instances.length; i++) {
             const entry = instances[i];
-            const local: Object = entry["local"];
-            const generator: Object = entry["generator"];
-            const instance_id = entry["instance_id"];
-            const instance_name = entry["instance_name"];
-            const breakpoint_id = entry["breakpoint_id"];
-            const namespace_id = entry["namespace_id"];
+            const local = entry.local;
+            const generator = entry.generator;
+            const instance_id = entry.instance_id;
+            const instance_name = entry.instance_name;
+            const breakpoint_id = entry.breakpoint_id;
+            const namespace_id = entry.namespace_id;
 
             // convert them into the format and store them
             const local_variables_raw = new Map<string, string>(Object.entries(local));
@@ -241,12 +702,23 @@ export class HGDBRuntime extends EventEmitter {
             this._currentBreakpointIDs.set(instance_id, breakpoint_id);
             this._currentNamespaceIDs.set(instance_id, namespace_id);
             // set the breakpoint type
-            const bp_type = entry["bp_type"];
+            const bp_type = entry.bp_type;
             this._currentBreakpointTypes.set(instance_id, bp_type);
+            // arrays left out of the payload, indexed the same way as the variables
+            const arrays = {
+                local: HGDBRuntime.toLazyArrays(entry.local_arrays),
+                generator: HGDBRuntime.toLazyArrays(entry.generator_arrays)
+            };
+            const frame_arrays = this._currentArrays.get(instance_id);
+            if (frame_arrays) {
+                frame_arrays.push(arrays);
+            } else {
+                this._currentArrays.set(instance_id, [arrays]);
+            }
         }
 
         // set time
-        this._currentTime = payload["time"];
+        this._currentTime = payload.time;
     }
 
     /**
@@ -271,6 +743,129 @@ export class HGDBRuntime extends EventEmitter {
         }
     }
 
+    /**
+     * Step into the child scope of the instance, optionally picking one of the step in targets
+     */
+    public async stepIn(instance_id: number, target?: number) {
+        const payload: RequestPayloads["command"] = {"command": "step_in"};
+        const breakpoint_id = this._currentBreakpointIDs.get(instance_id);
+        if (breakpoint_id !== undefined) {
+            payload.breakpoint_id = breakpoint_id;
+        }
+        if (target !== undefined) {
+            payload.target = target;
+        }
+        await this.sendCommandPayload(payload);
+    }
+
+    /**
+     * Step until the instance returns to the parent scope
+     */
+    public async stepOut(instance_id: number) {
+        const payload: RequestPayloads["command"] = {"command": "step_out"};
+        const breakpoint_id = this._currentBreakpointIDs.get(instance_id);
+        if (breakpoint_id !== undefined) {
+            payload.breakpoint_id = breakpoint_id;
+        }
+        await this.sendCommandPayload(payload);
+    }
+
+    /**
+     * Breakpoint locations at the given line that execution can jump to, one for each instance
+     */
+    public async getGotoTargets(filename: string, line: number) {
+        try {
+            return await this.sendBpLocation(path.resolve(filename), line);
+        } catch (error) {
+            if (error.kind === RequestErrorKind.Server) {
+                return [];
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Move execution to the breakpoint location, either later in the current simulation time
+     * or the next time it becomes active
+     */
+    public async goto(breakpoint_id: number) {
+        if (this._connected) {
+            this._scanning = false;
+            this._runCommand = undefined;
+            this._gotoTarget = breakpoint_id;
+            await this.sendCommand("step_over", () => {
+                this._gotoTarget = undefined;
+            });
+        }
+    }
+
+    /**
+     * Stop a running simulation at the next breakpoint location
+     */
+    public async pause() {
+        if (this._connected) {
+            this._scanning = false;
+            this._gotoTarget = undefined;
+            this._runCommand = undefined;
+            this._pausing = true;
+            await this.sendCommand("step_over", () => {
+                this._pausing = false;
+            });
+        }
+    }
+
+    /**
+     * Run the simulation until the given time
+     */
+    public async runToTime(time: number) {
+        if (!Number.isInteger(time) || time < 0) {
+            throw new Error(`Invalid simulation time ${time}`);
+        }
+        await this.runToTarget({"command": "run_to_time", "time": time});
+    }
+
+    /**
+     * Advance the simulation by the given number of clock cycles
+     */
+    public async stepCycles(cycles: number) {
+        if (!Number.isInteger(cycles) || cycles <= 0) {
+            throw new Error(`Invalid number of cycles ${cycles}`);
+        }
+        await this.runToTarget({"command": "step_cycles", "cycles": cycles});
+    }
+
+    private async runToTarget(payload: RequestPayloads["command"]) {
+        this._scanning = false;
+        this._runCommand = payload;
+        await this.sendCommandPayload(payload, () => {
+            this._runCommand = undefined;
+        });
+        this.sendEvent("continued");
+    }
+
+    /**
+     * Child scopes the instance can step into from the current line
+     */
+    public async getStepInTargets(instance_id: number) {
+        const breakpoint_id = this._currentBreakpointIDs.get(instance_id);
+        if (breakpoint_id === undefined) {
+            return [];
+        }
+        try {
+            const targets = await this.sendRequest("step-in-targets", {"breakpoint_id": breakpoint_id});
+            targets.forEach(target => {
+                target.filename = this.toLocalPath(target.filename);
+            });
+            return targets;
+        } catch (error) {
+            if (error.kind === RequestErrorKind.Server) {
+                // no child scopes, or the simulator does not know about them
+                return [];
+            }
+            throw error;
+        }
+    }
+
     /*
      * Verify breakpoint in file with given line.
      */
@@ -283,40 +878,71 @@ export class HGDBRuntime extends EventEmitter {
             column = 0;
         }
 
-        let get_breakpoints = new Promise<void>((resolve, reject) => {
-            const token = this.getToken();
-            // register a callback
-            this.addCallback(token, (resp) => {
-                const status = resp.status;
-                if (status === "error") {
-                    this.sendEvent("errorMessage", `Cannot set breakpoint at ${filename}:${line}`);
-                    reject();
-                } else {
-                    const bps_data = resp.payload;
-                    bps_data.forEach(e => {
-                        let bp = <HGDBBreakpoint>{
-                            valid: true,
-                            line_num: e.line_num,
-                            id: e.id,
-                            filename: filename,
-                            column_num: e.column_num
-                        };
-                        let id = bp.id;
-                        this.sendEvent('breakpointValidated', bp);
-                        this._breakPoints.set(id, bp);
-                        bps.push(bp);
-                    });
-                    resolve();
-                }
-            });
-            this.sendBpLocation(filename, line, token, column);
+        let bps_data;
+        try {
+            bps_data = await this.sendBpLocation(filename, line, column);
+        } catch (error) {
+            if (error.kind === RequestErrorKind.Server) {
+                this.sendEvent("errorMessage", `Cannot set breakpoint at ${filename}:${line}`);
+            }
+            throw error;
+        }
+        bps_data.forEach(e => {
+            let bp = <HGDBBreakpoint>{
+                valid: true,
+                line_num: e.line_num,
+                id: e.id,
+                filename: filename,
+                column_num: e.column_num
+            };
+            let id = bp.id;
+            this.sendEvent('breakpointValidated', bp);
+            this._breakPoints.set(id, bp);
+            bps.push(bp);
         });
 
-        await get_breakpoints;
+        return bps;
+    }
 
+    /**
+     * Insert breakpoints at the line without going through VS Code. Relative filenames are
+     * resolved against the workspace
+     */
+    public async addBreakpoint(filename: string, line: number, condition?: string) {
+        const bps = await this.verifyBreakpoint(path.resolve(this._workspaceDir, filename), line);
+        for (const bp of bps) {
+            await this.setBreakpoint(bp.id, condition);
+            this.sendEvent("breakpointAdded", bp);
+        }
         return bps;
     }
 
+    /**
+     * Remove an inserted breakpoint by id. Returns false if the breakpoint is not inserted
+     */
+    public async removeBreakpoint(breakpoint_id: number) {
+        const bp = this._breakPoints.get(breakpoint_id);
+        if (!bp || !this._activeBreakpoints.has(breakpoint_id)) {
+            return false;
+        }
+        await this.sendRequest("breakpoint-id", {"id": breakpoint_id, "action": "remove"});
+        this._activeBreakpoints.delete(breakpoint_id);
+        this._hitCounts.delete(breakpoint_id);
+        this.sendEvent("breakpointRemoved", bp);
+        return true;
+    }
+
+    public getActiveBreakpoints() {
+        let result = new Array<[HGDBBreakpoint, BreakpointOptions]>();
+        this._activeBreakpoints.forEach((options, id) => {
+            const bp = this._breakPoints.get(id);
+            if (bp) {
+                result.push([bp, options]);
+            }
+        });
+        return result;
+    }
+
     /*
      * Clear all breakpoints for file.
      */
@@ -324,97 +950,270 @@ export class HGDBRuntime extends EventEmitter {
         // find the filename
         const resolved_filename = path.resolve(filename);
         await this.sendRemoveBreakpoints(resolved_filename);
+        this._breakPoints.forEach((bp, id) => {
+            if (bp.filename === resolved_filename) {
+                this._activeBreakpoints.delete(id);
+            }
+        });
     }
 
     public async getBreakpoints(filename: string, line: number) {
-        const token = this.getToken();
-        let promise = new Promise<Array<number>>((resolve) => {
-            this.addCallback(token, (resp) => {
-                const status = resp.status;
-                if (status === "error") {
-                    resolve([]);
-                } else {
-                    const bps = resp.payload;
-                    let cols = new Array<number>();
-                    bps.forEach(bp => {
-                        cols.push(bp.column_num);
-                    });
-                    resolve(cols);
-                }
-            });
+        let bps;
+        try {
+            bps = await this.sendBpLocation(filename, line);
+        } catch (error) {
+            if (error.kind === RequestErrorKind.Server) {
+                return [];
+            }
+            throw error;
+        }
+        let cols = new Array<number>();
+        bps.forEach(bp => {
+            cols.push(bp.column_num);
         });
-        await this.sendBpLocation(filename, line, token);
-        return await promise;
+        return cols;
     }
 
     public async clearDataBreakpoints() {
-        const token = this.getToken();
-        return new Promise<void>((resolve, reject) => {
-            this.addCallback(token, (resp) => {
-                if (resp.status === "success") {
-                    resolve();
-                } else {
-                    reject();
-                }
-            });
-            const payload = {
-                "request": true, "type": "data-breakpoint", "token": token,
-                "payload": {
-                    "action": "clear"
-                }
-            };
-            this.sendPayload(payload);
-        });
+        await this.sendRequest("data-breakpoint", {"action": "clear"});
+        this._dataBreakpoints.clear();
     }
 
-    public async validateDataBreakpoint(instanceID: number, var_name: string) {
-        const bp_id = this._currentBreakpointIDs.get(instanceID);
-        if (!bp_id) {
-            return new Promise<boolean>(() => {
-                return false;
-            });
-        } else {
-            const token = this.getToken();
-            return new Promise<boolean>((resolve) => {
-                this.addCallback(token, (resp) => {
-                    resolve(resp.status === "success");
-                });
-                const payload = {
-                    "request": true, "type": "data-breakpoint", "token": token,
-                    "payload": {
-                        "var_name": var_name,
-                        "breakpoint-id": bp_id,
-                        "action": "info"
-                    }
-                };
-                this.sendPayload(payload);
-            });
+    /**
+     * Compute the data id for a variable in the instance the simulator is currently stopped at.
+     * The id is keyed by the hierarchical instance name, so VS Code can persist it across sessions
+     */
+    public getDataBreakpointID(instanceID: number, var_name: string) {
+        const instance_name = this._currentGeneratorNames.get(instanceID);
+        if (instance_name === undefined) {
+            return undefined;
         }
+        const location: WatchpointLocation = {
+            instance: instance_name,
+            var: var_name,
+            filename: this._currentFilename,
+            line: this._currentLineNum
+        };
+        return JSON.stringify(location);
     }
 
-    public async addDataBreakPoint(instanceID: number, var_name: string, cond: string) {
-        const bp_id = this._currentBreakpointIDs.get(instanceID);
-        if (!bp_id) {
-            return new Promise<boolean>(() => {
-                return false;
-            });
-        } else {
-            const token = this.getToken();
-            return new Promise<boolean>((resolve) => {
-                this.addCallback(token, (resp) => {
-                    resolve(resp.status === "success");
-                });
-                const payload = {
-                    "request": true, "type": "data-breakpoint", "token": token,
-                    "payload": {
-                        "var_name": var_name,
-                        "breakpoint-id": bp_id,
-                        "condition": cond,
-                        "action": "add"
-                    }
-                };
-                this.sendPayload(payload);
-            });
+    public getCurrentWatchpoints() {
+        return this._currentWatchpoints;
+    }
+
+    /**
+     * Update the data breakpoints to match the given list. Only the differences are sent to the simulator.
+     * Data breakpoints from a previous session are resolved again using the symbol table
+     */
+    public async setDataBreakpoints(breakpoints: Array<HGDBDataBreakpoint>) {
+        const requested = new Map<string, HGDBDataBreakpoint>();
+        breakpoints.forEach(bp => requested.set(bp.dataId, bp));
+
+        // remove the ones that are gone or whose condition changed
+        for (const [id, entry] of Array.from(this._dataBreakpoints.entries())) {
+            const bp = requested.get(id);
+            if (entry.fromConsole && !bp) {
+                // VS Code does not know about watchpoints set in the Debug Console
+                continue;
+            }
+            if (bp && (bp.condition ? bp.condition : "") === entry.condition) {
+                if (entry.hitCondition !== bp.hitCondition) {
+                    entry.hitCondition = bp.hitCondition;
+                    this._dataHitCounts.delete(id);
+                }
+                continue;
+            }
+            await this.removeDataBreakpoint(id, entry);
+        }
+
+        let result = new Array<HGDBDataBreakpointStatus>();
+        for (const bp of breakpoints) {
+            let entry = this._dataBreakpoints.get(bp.dataId);
+            if (!entry) {
+                const location = HGDBRuntime.parseDataBreakpointID(bp.dataId);
+                if (!location || (bp.hitCondition && !util.parseHitCondition(bp.hitCondition))) {
+                    result.push({verified: false, message: "Invalid data breakpoint"});
+                    continue;
+                }
+                entry = await this.createDataBreakpoint(bp.dataId, location, bp.condition, bp.hitCondition, false);
+            }
+            result.push(HGDBRuntime.getDataBreakpointStatus(entry));
+        }
+        return result;
+    }
+
+    /**
+     * Watch the variable in the instance without going through VS Code
+     */
+    public async addWatchpoint(instanceID: number, var_name: string, condition?: string) {
+        const dataId = this.getDataBreakpointID(instanceID, var_name);
+        if (dataId === undefined || !(await this.validateDataBreakpoint(instanceID, var_name))) {
+            return {verified: false, message: `Unable to watch ${var_name}`};
+        }
+        let entry = this._dataBreakpoints.get(dataId);
+        if (!entry) {
+            entry = await this.createDataBreakpoint(dataId, <WatchpointLocation>JSON.parse(dataId), condition,
+                undefined, true);
+        }
+        return HGDBRuntime.getDataBreakpointStatus(entry);
+    }
+
+    /**
+     * Remove a watchpoint set in the Debug Console. Returns false if there is no such watchpoint
+     */
+    public async removeWatchpoint(number: number) {
+        for (const [id, entry] of Array.from(this._dataBreakpoints.entries())) {
+            if (entry.number === number && entry.fromConsole) {
+                await this.removeDataBreakpoint(id, entry);
+                return true;
+            }
+        }
+        return false;
+    }
+
+    public getWatchpoints() {
+        let result = new Array<HGDBWatchpoint>();
+        this._dataBreakpoints.forEach(entry => {
+            result.push({
+                number: entry.number,
+                instance: entry.location.instance,
+                var: entry.location.var,
+                condition: entry.condition,
+                resolved: entry.breakpoint_id !== undefined,
+                fromConsole: entry.fromConsole
+            });
+        });
+        return result;
+    }
+
+    private async createDataBreakpoint(dataId: string, location: WatchpointLocation, condition: string | undefined,
+                                       hitCondition: string | undefined, fromConsole: boolean) {
+        const entry: DataBreakpointEntry = {
+            number: this._nextWatchpointNumber++,
+            location: location,
+            breakpoint_id: undefined,
+            condition: condition ? condition : "",
+            hitCondition: hitCondition,
+            fromConsole: fromConsole
+        };
+        this._dataBreakpoints.set(dataId, entry);
+        await this.resolveDataBreakpoint(entry);
+        return entry;
+    }
+
+    private async removeDataBreakpoint(dataId: string, entry: DataBreakpointEntry) {
+        if (entry.breakpoint_id !== undefined) {
+            await this.sendRequest("data-breakpoint", {
+                "var_name": entry.location.var,
+                "breakpoint-id": entry.breakpoint_id,
+                "action": "remove"
+            });
+        }
+        this._dataBreakpoints.delete(dataId);
+        this._dataHitCounts.delete(dataId);
+    }
+
+    private static getDataBreakpointStatus(entry: DataBreakpointEntry): HGDBDataBreakpointStatus {
+        if (entry.breakpoint_id !== undefined) {
+            return {verified: true};
+        }
+        return {
+            verified: false,
+            message: `Waiting for ${entry.location.instance} to resolve ${entry.location.var}`
+        };
+    }
+
+    public async validateDataBreakpoint(instanceID: number, var_name: string) {
+        const bp_id = this._currentBreakpointIDs.get(instanceID);
+        if (bp_id === undefined) {
+            return false;
+        }
+        return await this.checkDataBreakpoint(bp_id, var_name);
+    }
+
+    private async checkDataBreakpoint(breakpoint_id: number, var_name: string) {
+        return await this.succeeded(this.sendRequest("data-breakpoint", {
+            "var_name": var_name,
+            "breakpoint-id": breakpoint_id,
+            "action": "info"
+        }));
+    }
+
+    private static parseDataBreakpointID(dataId: string): WatchpointLocation | undefined {
+        let location: WatchpointLocation;
+        try {
+            location = JSON.parse(dataId);
+        } catch (error) {
+            return undefined;
+        }
+        if (!location || typeof location.instance !== "string" || typeof location.var !== "string" ||
+            typeof location.filename !== "string" || typeof location.line !== "number") {
+            return undefined;
+        }
+        return location;
+    }
+
+    /**
+     * Find the breakpoint id that puts the watched variable in scope and insert the data breakpoint.
+     * The instance the simulator is stopped at is used if it matches. Otherwise all breakpoints at the
+     * source location are tried, which is only unambiguous if a single one of them has the variable.
+     * Ambiguous watchpoints stay pending until the instance shows up in a breakpoint frame
+     */
+    private async resolveDataBreakpoint(entry: DataBreakpointEntry) {
+        let candidates = new Array<number>();
+        this._currentGeneratorNames.forEach((name, instance_id) => {
+            const bp_id = this._currentBreakpointIDs.get(instance_id);
+            if (name === entry.location.instance && bp_id !== undefined) {
+                candidates.push(bp_id);
+            }
+        });
+        if (candidates.length === 0) {
+            try {
+                const bps = await this.sendBpLocation(entry.location.filename, entry.location.line);
+                candidates = bps.map(bp => bp.id);
+            } catch (error) {
+                if (error.kind === RequestErrorKind.Server) {
+                    // the location no longer exists in the symbol table
+                    return;
+                }
+                throw error;
+            }
+        }
+        let valid = new Array<number>();
+        for (const bp_id of candidates) {
+            if (await this.checkDataBreakpoint(bp_id, entry.location.var)) {
+                valid.push(bp_id);
+            }
+        }
+        if (valid.length === 1) {
+            await this.insertDataBreakpoint(entry, valid[0]);
+        }
+    }
+
+    private async insertDataBreakpoint(entry: DataBreakpointEntry, breakpoint_id: number) {
+        const ok = await this.succeeded(this.sendRequest("data-breakpoint", {
+            "var_name": entry.location.var,
+            "breakpoint-id": breakpoint_id,
+            "condition": entry.condition,
+            "action": "add"
+        }));
+        if (ok) {
+            entry.breakpoint_id = breakpoint_id;
+        }
+    }
+
+    /**
+     * Resolve pending data breakpoints whose instance is part of the breakpoint frame
+     */
+    private async resolvePendingWatchpoints(payload: BreakpointFrame) {
+        for (const entry of Array.from(this._dataBreakpoints.values())) {
+            if (entry.breakpoint_id !== undefined) {
+                continue;
+            }
+            const instance = payload.instances.find(i => i.instance_name === entry.location.instance);
+            if (instance && await this.checkDataBreakpoint(instance.breakpoint_id, entry.location.var)) {
+                await this.insertDataBreakpoint(entry, instance.breakpoint_id);
+            }
         }
     }
 
@@ -474,50 +1273,27 @@ export class HGDBRuntime extends EventEmitter {
         }
     }
 
-    public async setBreakpoint(breakpoint_id: number, expr?: string) {
-        const token = this.getToken();
-        const payload = {
-            "request": true,
-            "type": "breakpoint-id",
-            "token": token,
-            "payload": {"id": breakpoint_id, "action": "add"}
-        };
+    public async setBreakpoint(breakpoint_id: number, expr?: string, log_message?: string, hit_condition?: string) {
+        if (hit_condition && !util.parseHitCondition(hit_condition)) {
+            throw new Error(`Invalid hit condition "${hit_condition}". Use >= N, == N or % N`);
+        }
+        const payload: RequestPayloads["breakpoint-id"] = {"id": breakpoint_id, "action": "add"};
         if (expr) {
-            payload["payload"]["condition"] = expr;
+            payload.condition = expr;
         }
-        let promise = new Promise<void>((resolve, reject) => {
-            this.addCallback(token, (resp) => {
-                if (resp.status === "error") {
-                    reject();
-                } else {
-                    resolve();
-                }
-            });
-        });
-        await this.sendPayload(payload);
-        return promise;
+        await this.sendRequest("breakpoint-id", payload);
+        const previous = this._activeBreakpoints.get(breakpoint_id);
+        if (!previous || previous.hitCondition !== hit_condition) {
+            // start counting again if the hit condition changes
+            this._hitCounts.delete(breakpoint_id);
+        }
+        this._activeBreakpoints.set(breakpoint_id,
+            {condition: expr, logMessage: log_message, hitCondition: hit_condition});
     }
 
-    public async getSimulatorStatus(info_command: string = "breakpoints") {
+    public async getSimulatorStatus(info_command: DebuggerInfoType = "breakpoints") {
         // used for debugging only. not actually used by the debug adapter
-        const token = this.getToken();
-        const payload = {
-            "request": true,
-            "type": "debugger-info",
-            "token": token,
-            "payload": {"command": info_command}
-        };
-        let promise = new Promise<any>((resolve, reject) => {
-            this.addCallback(token, (resp) => {
-                if (resp.status === "error") {
-                    reject();
-                } else {
-                    resolve(resp.payload);
-                }
-            });
-        });
-        await this.sendPayload(payload);
-        return promise;
+        return await this.sendRequest("debugger-info", {"command": info_command});
     }
 
     public async handleREPL(expression: string) {
@@ -539,51 +1315,208 @@ export class HGDBRuntime extends EventEmitter {
             this._currentNamespaceID = 0;
             this._currentBreakpointID = 0;
             return "";
+        } else if (tokens[0] === "run-to-time") {
+            const time = Number(tokens[1]);
+            if (tokens.length !== 2 || !Number.isInteger(time) || time < 0) {
+                return "Invalid run-to-time command: " + expression;
+            }
+            await this.runToTime(time);
+            return `Running until time ${time}`;
+        } else if (tokens[0] === "step-cycles") {
+            const cycles = tokens.length === 1 ? 1 : Number(tokens[1]);
+            if (tokens.length > 2 || !Number.isInteger(cycles) || cycles <= 0) {
+                return "Invalid step-cycles command: " + expression;
+            }
+            await this.stepCycles(cycles);
+            return `Advancing ${cycles} cycle(s)`;
         } else {
-            // ask the server about the values
-            // we only allow evaluation inside the scope of an instance, not the current breakpoint
-            // since we can have multiple frames at the same, and VS code won't notify us which one
-            // is active
-            return await this.sendEvaluation(this._currentNamespaceID, this._currentBreakpointID, expression, true);
+            return await this.evaluateREPLScope(expression);
         }
     }
 
+    /**
+     * Evaluate the expression in the REPL scope, without treating it as a REPL command
+     */
+    public async evaluateREPLScope(expression: string) {
+        // ask the server about the values
+        // we only allow evaluation inside the scope of an instance, not the current breakpoint
+        // since we can have multiple frames at the same, and VS code won't notify us which one
+        // is active
+        return await this.sendEvaluation(this._currentNamespaceID, this._currentBreakpointID, expression, true);
+    }
+
+    /**
+     * Evaluate REPL expressions in the scope of the instance. Returns false if the instance is not
+     * part of the current frame
+     */
+    public setREPLScope(instance_id: number) {
+        const breakpoint_id = this._currentBreakpointIDs.get(instance_id);
+        const namespace_id = this._currentNamespaceIDs.get(instance_id);
+        if (breakpoint_id === undefined) {
+            return false;
+        }
+        this._currentBreakpointID = breakpoint_id;
+        this._currentNamespaceID = namespace_id !== undefined ? namespace_id : 0;
+        return true;
+    }
+
     public async evaluateInstanceScope(expression: string, instance_id: number) {
         return await this.sendEvaluation(this._currentNamespaceID, instance_id,  expression, false);
     }
 
-    public async setValue(var_name: string, value: number, id: number, is_local: boolean) {
-        const token = this.getToken();
-        const payload = {
-            "request": true,
-            "type": "set-value",
-            "token": token,
-            "payload": {"var_name": var_name, "value": value}
+    /**
+     * Same as evaluateInstanceScope, except that evaluation errors give undefined instead of the error message
+     */
+    public async tryEvaluateInstanceScope(expression: string, instance_id: number) {
+        try {
+            const resp = await this.sendRequest("evaluation", {
+                "expression": expression,
+                "namespace_id": this._currentNamespaceID,
+                "instance_id": instance_id
+            });
+            return resp.result;
+        } catch (error) {
+            if (error.kind === RequestErrorKind.Server) {
+                return undefined;
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Set the variable from a decimal, 0x/0b or Verilog literal, or an enum name.
+     * Returns the new value as a decimal string
+     */
+    public async setValue(var_name: string, value: string, id: number, is_local: boolean) {
+        const type = await this.getVariableType(var_name, id, is_local);
+        let literal = util.parseValueLiteral(value);
+        if (literal === undefined && type && type.enum_members) {
+            const member = type.enum_members.find(m => m.name === value.trim());
+            if (member) {
+                literal = {value: BigInt(member.value), based: false};
+            }
+        }
+        if (literal === undefined) {
+            throw new Error(`Invalid value ${value}`);
+        }
+        let new_value: bigint | undefined = literal.value;
+        if (type) {
+            new_value = util.fitValue(literal, type.width, type.signed);
+            if (new_value === undefined) {
+                throw new Error(`${value} is out of range for ${type.width}-bit ${type.signed ? "signed" : "unsigned"} ${var_name}`);
+            }
+        }
+        const number_value = Number(new_value);
+        const payload: RequestPayloads["set-value"] = {
+            "var_name": var_name,
+            "value": Number.isSafeInteger(number_value) ? number_value : new_value.toString()
         };
         if (is_local) {
             const breakpoint_id = this._currentBreakpointIDs.get(id);
             if (breakpoint_id) {
-                payload["payload"]["breakpoint_id"] = breakpoint_id;
+                payload.breakpoint_id = breakpoint_id;
             }
             const namespace_id = this._currentNamespaceIDs.get(id);
             if (namespace_id) {
-                payload["payload"]["namespace_id"] = namespace_id;
+                payload.namespace_id = namespace_id;
             }
         } else {
-            payload["payload"]["instance_id"] = id;
+            payload.instance_id = id;
         }
 
-        let promise = new Promise<boolean>((resolve, reject) => {
-            this.addCallback(token, (resp) => {
-                if (resp.status === "error") {
-                    reject(false);
-                } else {
-                    resolve(true);
-                }
+        await this.sendRequest("set-value", payload);
+        return new_value.toString();
+    }
+
+    /**
+     * Sizes of the arrays in the frame whose elements have to be fetched with fetchArrayValues,
+     * keyed by the name in dot notation
+     */
+    public getLazyArraySizes(instance_id: number, stack_id: number, is_local: boolean) {
+        const sizes = new Map<string, number>();
+        const frames = this._currentArrays.get(instance_id);
+        if (frames && stack_id < frames.length) {
+            (is_local ? frames[stack_id].local : frames[stack_id].generator).forEach((array, name) => {
+                sizes.set(name, array.size);
             });
+        }
+        return sizes;
+    }
+
+    /**
+     * Fetch elements of an array left out of the breakpoint payload. The values are added to the
+     * local or generator variables of the frame
+     */
+    public async fetchArrayValues(var_name: string, instance_id: number, stack_id: number, is_local: boolean,
+                                  start: number, count: number) {
+        const frames = this._currentArrays.get(instance_id);
+        const vars = (is_local ? this._currentLocalVariables : this._currentGeneratorVariables).get(instance_id);
+        if (!frames || !vars || stack_id >= frames.length || stack_id >= vars.length) {
+            return;
+        }
+        const array = (is_local ? frames[stack_id].local : frames[stack_id].generator).get(var_name);
+        if (!array) {
+            return;
+        }
+        start = Math.max(start, 0);
+        const end = Math.min(start + count, array.size);
+        const key = `${instance_id}-${stack_id}-${is_local}-${var_name}-${start}-${end}`;
+        if (end <= start || this._fetchedArrayPages.has(key)) {
+            return;
+        }
+        const payload: RequestPayloads["array-values"] = {"var_name": array.name, "start": start, "count": end - start};
+        if (is_local) {
+            payload.breakpoint_id = this._currentBreakpointIDs.get(instance_id);
+            payload.namespace_id = this._currentNamespaceIDs.get(instance_id);
+        } else {
+            payload.instance_id = instance_id;
+        }
+        const values = await this.sendRequest("array-values", payload);
+        util.convertToDotMap(new Map<string, string>(Object.entries(values))).forEach((value, name) => {
+            vars[stack_id].set(name, value);
         });
-        await this.sendPayload(payload);
-        return promise;
+        this._fetchedArrayPages.add(key);
+    }
+
+    /**
+     * Width and signedness of the variable from the symbol table, cached for the session
+     */
+    public async getVariableType(var_name: string, id: number, is_local: boolean) {
+        const types = await this.getVariableTypes([var_name], id, is_local);
+        return types.get(var_name);
+    }
+
+    /**
+     * Same as getVariableType for several variables of the same scope. Only the types that are
+     * not cached yet are fetched, in a single request. Names can be in either the a.0 or the a[0] notation
+     */
+    public async getVariableTypes(var_names: Array<string>, id: number, is_local: boolean) {
+        const types = new Map<string, TypeInfo | undefined>();
+        const payload: RequestPayloads["type-info"] = {"var_names": []};
+        if (is_local) {
+            payload.breakpoint_id = this._currentBreakpointIDs.get(id);
+            if (payload.breakpoint_id === undefined) {
+                return types;
+            }
+        } else {
+            payload.instance_id = id;
+        }
+        const key = (name: string) => is_local ? `breakpoint-${payload.breakpoint_id}-${name}` : `instance-${id}-${name}`;
+        const sim_names = new Set(var_names.map(util.convertToBracket));
+        payload.var_names = Array.from(sim_names).filter(name => !this._typeCache.has(key(name)));
+        if (payload.var_names.length > 0) {
+            let resp: ResponsePayloads["type-info"] = {};
+            try {
+                resp = await this.sendRequest("type-info", payload);
+            } catch (error) {
+                if (error.kind !== RequestErrorKind.Server) {
+                    throw error;
+                }
+            }
+            payload.var_names.forEach(name => this._typeCache.set(key(name), resp[name]));
+        }
+        var_names.forEach(name => types.set(name, this._typeCache.get(key(util.convertToBracket(name)))));
+        return types;
     }
 
     public async reverseContinue(on_error?) {
@@ -591,9 +1524,11 @@ export class HGDBRuntime extends EventEmitter {
     }
 
     // private methods
-    private async sendPayload(payload: any) {
+    private async sendPayload(payload: Request<RequestType>) {
         const payload_str = JSON.stringify(payload);
         if (this._connection) {
+            // only start the clock once the request actually leaves
+            this.armTimeout(payload.token);
             await this._connection.send(payload_str);
         } else {
             // put it in the queue
@@ -601,57 +1536,145 @@ export class HGDBRuntime extends EventEmitter {
         }
     }
 
-    private async sendCommand(command: string, on_error?) {
+    /**
+     * Send a request to the server and wait for the matching response. The promise is rejected with
+     * a HGDBRequestError if the server reports an error, does not reply within the timeout, or
+     * the connection is closed
+     */
+    private sendRequest<T extends RequestType>(type: T, payload: RequestPayloads[T]): Promise<ResponsePayloads[T]> {
         const token = this.getToken();
-        const payload = {"request": true, "type": "command", "token": token, "payload": {"command": command}};
-        return new Promise<void>((async (resolve, reject) => {
-            this.addCallback(token, async (resp) => {
-                if (resp.status === "error") {
-                    if (on_error) {
-                        on_error();
-                    }
-                    reject();
-                } else {
-                    resolve();
-                }
+        const request: Request<T> = {"request": true, "type": type, "token": token, "payload": payload};
+        const promise = new Promise<ResponsePayloads[T]>((resolve, reject) => {
+            this._pendingRequests.set(token, {
+                type: type,
+                timeout: this._requestTimeout,
+                resolve: resolve,
+                reject: reject
             });
+        });
+        this.sendPayload(request).catch((error) => {
+            this.rejectRequest(token, new HGDBRequestError(RequestErrorKind.Closed,
+                `Unable to send ${type} request: ${error}`, type));
+        });
+        return promise;
+    }
 
-            await this.sendPayload(payload);
-        }));
+    private armTimeout(token: string) {
+        const pending = this._pendingRequests.get(token);
+        if (!pending || pending.timeout <= 0) {
+            return;
+        }
+        pending.timer = setTimeout(() => {
+            this.rejectRequest(token, new HGDBRequestError(RequestErrorKind.Timeout,
+                `Simulator did not respond to ${pending.type} request within ${pending.timeout} ms`, pending.type));
+        }, pending.timeout);
+    }
 
+    /**
+     * Settle the pending request matching the response token. Returns false if no request is waiting
+     * on that token
+     */
+    private settleRequest(resp: Response) {
+        const token = <string>resp.token;
+        const pending = this._pendingRequests.get(token);
+        if (!pending) {
+            return false;
+        }
+        if (resp.status === "success") {
+            this.clearRequest(token);
+            pending.resolve(resp.payload);
+        } else {
+            const reason = resp.payload && resp.payload.reason ? resp.payload.reason : "Unknown error";
+            this.rejectRequest(token, new HGDBRequestError(RequestErrorKind.Server, reason, pending.type));
+        }
+        return true;
+    }
+
+    private rejectRequest(token: string, error: HGDBRequestError) {
+        const pending = this._pendingRequests.get(token);
+        if (pending) {
+            this.clearRequest(token);
+            pending.reject(error);
+        }
+    }
+
+    private rejectPendingRequests(error: HGDBRequestError) {
+        // queued requests are not rejected since they have not been sent yet
+        const queued = new Set<string>(this._queuedPayload.map(p => p.token));
+        const tokens = Array.from(this._pendingRequests.keys()).filter(t => !queued.has(t));
+        tokens.forEach((token) => {
+            this.rejectRequest(token, new HGDBRequestError(error.kind, error.message,
+                this._pendingRequests.get(token)?.type));
+        });
+    }
+
+    private rejectQueuedRequests(error: HGDBRequestError) {
+        const queued = this._queuedPayload.splice(0);
+        queued.forEach((payload) => {
+            this.rejectRequest(payload.token, new HGDBRequestError(error.kind, error.message, payload.type));
+        });
+    }
+
+    private clearRequest(token: string) {
+        const pending = this._pendingRequests.get(token);
+        if (pending && pending.timer) {
+            clearTimeout(pending.timer);
+        }
+        this._pendingRequests.delete(token);
+    }
+
+    private async succeeded(promise: Promise<any>) {
+        try {
+            await promise;
+            return true;
+        } catch (error) {
+            return false;
+        }
+    }
+
+    private async sendCommand(command: CommandType, on_error?) {
+        await this.sendCommandPayload({"command": command}, on_error);
+    }
+
+    private async sendCommandPayload(payload: RequestPayloads["command"], on_error?) {
+        this._lastCommand = payload.command;
+        try {
+            await this.sendRequest("command", payload);
+        } catch (error) {
+            if (on_error) {
+                on_error();
+            }
+            throw error;
+        }
     }
 
     private async sendEvaluation(namespace_id: number, id: number, expression: string, is_context: boolean) {
-        const token = this.getToken();
-        let payload = {
-            "request": true,
-            "type": "evaluation",
-            "token": token,
-            "payload": {"expression": expression, "namespace_id": namespace_id}
-        };
+        const payload: RequestPayloads["evaluation"] = {"expression": expression, "namespace_id": namespace_id};
 
         if (is_context) {
-            payload.payload["breakpoint_id"] = id;
+            payload.breakpoint_id = id;
         } else {
-            payload.payload["instance_id"] = id;
+            payload.instance_id = id;
         }
 
-        return new Promise<string>((async (resolve) => {
-            this.addCallback(token, async (resp) => {
-                if (resp.status === "error") {
-                    const reason = resp.payload.reason;
-                    resolve(reason);
-                } else {
-                    resolve(resp.payload.result);
-                }
-            });
-            await this.sendPayload(payload);
-        }));
+        try {
+            const resp = await this.sendRequest("evaluation", payload);
+            return resp.result;
+        } catch (error) {
+            if (error.kind === RequestErrorKind.Server) {
+                // evaluation errors are reported back as the result
+                return error.message;
+            }
+            throw error;
+        }
     }
 
     private async run(is_step: Boolean) {
         if (this._connected) {
-            if (!is_step) {
+            // there is no server side support for instance breakpoints. instead we step through every
+            // breakpoint location and only stop inside the matching instances
+            this._scanning = !is_step && this._instanceBreakpoints.length > 0;
+            if (!is_step && !this._scanning) {
                 await this.sendCommand("continue");
             } else {
                 await this.sendCommand("step_over");
@@ -662,23 +1685,9 @@ export class HGDBRuntime extends EventEmitter {
     }
 
     private async sendRemoveBreakpoints(filename: string) {
-        const token = this.getToken();
-        return new Promise<void>((resolve, reject) => {
-            this.addCallback(token, (resp) => {
-                if (resp.status === "success") {
-                    resolve();
-                } else {
-                    reject();
-                }
-            });
-            const payload = {
-                "request": true, "type": "breakpoint", "token": token,
-                "payload": {
-                    "filename": filename,
-                    "action": "remove"
-                }
-            };
-            this.sendPayload(payload);
+        await this.sendRequest("breakpoint", {
+            "filename": this.toRemotePath(filename),
+            "action": "remove"
         });
     }
 
@@ -688,43 +1697,245 @@ export class HGDBRuntime extends EventEmitter {
             file = path.join(this._workspaceDir, file);
         }
 
-        // register callback
-        const token = this.getToken();
-        let promise = new Promise<void>((resolve, reject) => {
-            this.addCallback(token, async (resp) => {
-                if (resp.status === "error") {
-                    const reason = resp.payload.reason;
-                    this.sendEvent("errorMessage", `Failed to connect to a running simulator. Reason: ${reason}`);
-                    await this.stop();
-                    reject();
-                } else {
-                    this._connected = true;
-                    this.sendEvent("simulatorConnected");
-                    resolve();
-                }
-            });
-        });
-
-        await this.sendConnectMessage(file, token);
-        return promise;
+        try {
+            await this.sendConnectMessage(file);
+        } catch (error) {
+            if (error.kind === RequestErrorKind.Server) {
+                this.sendEvent("errorMessage", `Failed to connect to a running simulator. Reason: ${error.message}`);
+                await this.stop().catch(() => undefined);
+            }
+            throw error;
+        }
+        this._connected = true;
+        this.sendEvent("simulatorConnected");
     }
 
-    private onBreakpoint(payload, is_exception = false) {
-        this._currentLocalVariables.clear();
-        this._currentGeneratorVariables.clear();
-        this._currentGeneratorNames.clear();
-        this._currentBreakpointIDs.clear();
-        this._currentBreakpointTypes.clear();
+    private async onBreakpoint(payload: BreakpointFrame, is_exception = false) {
+        this._currentException = undefined;
+        if (is_exception) {
+            // exceptions always stop, regardless of any other user settings
+            payload.instances = payload.instances.filter(HGDBRuntime.isException);
+            const type = <ExceptionType>payload.instances[0].bp_type;
+            this._currentException = {
+                type: type,
+                description: payload.reason ? payload.reason : `${type} at ${this.toLocalPath(payload.filename)}:${payload.line_num}`
+            };
+            this._scanning = false;
+        }
+        const run_command = this._runCommand;
+        this._runCommand = undefined;
+        const goto_target = is_exception ? undefined : this._gotoTarget;
+        this._gotoTarget = undefined;
+        const pausing = !is_exception && this._pausing;
+        this._pausing = false;
+        // steps always stop where they land. only a run, forward or in reverse, skips locations.
+        // step_cycles is a step as well: the server does not report how many cycles have passed, so
+        // the request cannot be resumed without overshooting
+        const reversing = !this._scanning && this._lastCommand === "reverse_continue";
+        const resuming = this._scanning || this._lastCommand === undefined || this._lastCommand === "continue" ||
+            this._lastCommand === "run_to_time" || reversing;
+        this._stopOnInstance = false;
+        if (pausing) {
+            // every instance at the location is part of the pause
+        } else if (goto_target !== undefined) {
+            // jumping skips every location until the target one, including user breakpoints
+            payload.instances = payload.instances.filter(entry => entry.breakpoint_id === goto_target);
+            if (payload.instances.length === 0) {
+                this._gotoTarget = goto_target;
+                await this.sendCommand("step_over");
+                return;
+            }
+        } else if (resuming) {
+            await this.resolvePendingWatchpoints(payload);
+            const missed = this._scanning ? await this.evaluateScanConditions(payload) : new Set<BreakpointFrameInstance>();
+            // hit counts only include the visits of a forward run
+            if (!reversing) {
+                payload.instances = this.processHitConditions(payload, missed);
+            }
+            payload.instances = this.processWatchpoints(payload, !reversing);
+            // logpoints are printed out and removed from the frame
+            payload.instances = await this.processLogpoints(payload, false, missed);
+            if (this._scanning) {
+                payload.instances = this.processInstanceBreakpoints(payload, missed);
+            }
+        } else {
+            await this.resolvePendingWatchpoints(payload);
+            // hit counts only include the visits of a forward run
+            payload.instances = this.processWatchpoints(payload, false);
+            // still print the message, but stop where the step landed
+            payload.instances = await this.processLogpoints(payload, true);
+        }
+        if (payload.instances.length === 0) {
+            // nothing left to stop at
+            if (run_command) {
+                // keep going to the target time
+                this._runCommand = run_command;
+                await this.sendRequest("command", run_command);
+            } else {
+                await this.sendCommand(reversing ? "reverse_continue" : this._scanning ? "step_over" : "continue");
+            }
+            return;
+        }
+        // stopped at the target rather than at any user breakpoint
+        const reached_target = run_command !== undefined && !is_exception && !payload.instances.some(entry => {
+            return entry.bp_type === "data" || this._activeBreakpoints.has(entry.breakpoint_id);
+        });
+        this._scanning = false;
+
+        this.clearFrameInfo();
         // we will get a list of values
         this.addFrameInfo(payload);
         // recreate threads
-        if (!is_exception) {
-            this.fireEventsForBreakPoint();
-        } else {
+        if (is_exception) {
             this.fireEventsForException();
+        } else if (pausing) {
+            this.sendEvent("stopOnPause");
+        } else if (goto_target !== undefined) {
+            this.sendEvent("stopOnGoto");
+        } else if (reached_target) {
+            this.sendEvent("stopOnRunTarget");
+        } else {
+            this.fireEventsForBreakPoint();
         }
     }
 
+    /**
+     * Count the breakpoint hits and drop the instances whose hit condition is not met yet.
+     * Only used for forward runs, a step always stops where it lands
+     */
+    private processHitConditions(payload: BreakpointFrame, missed: Set<BreakpointFrameInstance>) {
+        return payload.instances.filter((entry) => {
+            const options = this._activeBreakpoints.get(entry.breakpoint_id);
+            if (!HGDBRuntime.isLineBreakpoint(entry) || !options || !options.hitCondition || missed.has(entry)) {
+                return true;
+            }
+            const condition = util.parseHitCondition(options.hitCondition);
+            const count = (this._hitCounts.get(entry.breakpoint_id) || 0) + 1;
+            this._hitCounts.set(entry.breakpoint_id, count);
+            return condition === undefined || util.isHitConditionMet(condition, count);
+        });
+    }
+
+    /**
+     * Figure out which data breakpoints triggered and, if counted, apply their hit conditions
+     */
+    private processWatchpoints(payload: BreakpointFrame, count_hits: boolean) {
+        this._currentWatchpoints = [];
+        return payload.instances.filter((entry) => {
+            if (entry.bp_type !== "data") {
+                return true;
+            }
+            let stop = false;
+            let matched = false;
+            this._dataBreakpoints.forEach((bp, id) => {
+                if (bp.breakpoint_id !== entry.breakpoint_id || (payload.var && payload.var !== bp.location.var)) {
+                    return;
+                }
+                matched = true;
+                const condition = bp.hitCondition && count_hits ? util.parseHitCondition(bp.hitCondition) : undefined;
+                const count = (this._dataHitCounts.get(id) || 0) + 1;
+                if (count_hits) {
+                    this._dataHitCounts.set(id, count);
+                }
+                if (condition === undefined || util.isHitConditionMet(condition, count)) {
+                    stop = true;
+                    const name = `${bp.location.instance}.${bp.location.var}`;
+                    if (this._currentWatchpoints.indexOf(name) < 0) {
+                        this._currentWatchpoints.push(name);
+                    }
+                }
+            });
+            // data breakpoints we don't know about, e.g. set from another client, always stop
+            return stop || !matched;
+        });
+    }
+
+    /**
+     * Scanning steps through every location, so the simulator does not check the conditions of
+     * user breakpoints. Returns the instances whose breakpoint condition is false
+     */
+    private async evaluateScanConditions(payload: BreakpointFrame) {
+        const missed = new Set<BreakpointFrameInstance>();
+        for (const entry of payload.instances) {
+            const options = this._activeBreakpoints.get(entry.breakpoint_id);
+            if (!HGDBRuntime.isLineBreakpoint(entry) || !options || !options.condition) {
+                continue;
+            }
+            let result: string;
+            try {
+                const resp = await this.sendRequest("evaluation", {
+                    "expression": options.condition,
+                    "namespace_id": entry.namespace_id,
+                    "breakpoint_id": entry.breakpoint_id
+                });
+                result = resp.result;
+            } catch (error) {
+                if (error.kind !== RequestErrorKind.Server) {
+                    throw error;
+                }
+                // stop at invalid conditions so that the user notices
+                continue;
+            }
+            if (/^(-?0+|false)$/i.test(result.trim())) {
+                missed.add(entry);
+            }
+        }
+        return missed;
+    }
+
+    /**
+     * Only keep instances that either hit a user breakpoint or match one of the instance breakpoints
+     */
+    private processInstanceBreakpoints(payload: BreakpointFrame, missed: Set<BreakpointFrameInstance>) {
+        let matched = false;
+        let hit = false;
+        const instances = payload.instances.filter((entry) => {
+            if (!HGDBRuntime.isLineBreakpoint(entry) ||
+                (this._activeBreakpoints.has(entry.breakpoint_id) && !missed.has(entry))) {
+                hit = true;
+                return true;
+            }
+            const match = this._instanceBreakpoints.some((pattern) => {
+                return util.matchInstanceName(entry.instance_name, pattern);
+            });
+            matched = matched || match;
+            return match;
+        });
+        this._stopOnInstance = matched && !hit;
+        return instances;
+    }
+
+    /**
+     * Print out messages for logpoint hits and return the instances that should actually stop
+     */
+    private async processLogpoints(payload: BreakpointFrame, keep: boolean,
+                                   missed = new Set<BreakpointFrameInstance>()) {
+        let instances = new Array<BreakpointFrameInstance>();
+        for (const entry of payload.instances) {
+            const options = this._activeBreakpoints.get(entry.breakpoint_id);
+            if (!HGDBRuntime.isLineBreakpoint(entry) || !options || options.logMessage === undefined ||
+                missed.has(entry)) {
+                instances.push(entry);
+                continue;
+            }
+            let message = "";
+            for (const segment of util.parseLogMessage(options.logMessage)) {
+                if (segment.isExpression) {
+                    message += await this.sendEvaluation(entry.namespace_id, entry.breakpoint_id, segment.text, true);
+                } else {
+                    message += segment.text;
+                }
+            }
+            this.sendEvent("output", `[${payload.time}] ${entry.instance_name}: ${message}\n`, "console",
+                this.toLocalPath(payload.filename), payload.line_num,
+                payload.column_num > 0 ? payload.column_num : undefined);
+            if (keep) {
+                instances.push(entry);
+            }
+        }
+        return instances;
+    }
+
     /**
      * Get a random token via UUID
      */
@@ -735,34 +1946,62 @@ export class HGDBRuntime extends EventEmitter {
         return "vscode-" + id.toString();
     }
 
-    private addCallback(token: string, callback: Function) {
-        this._tokenCallbacks.set(token, callback);
+    private async sendExceptionOptions(types = this._exceptionTypes) {
+        let options: RequestPayloads["option-change"] = {};
+        ExceptionTypes.forEach((type) => {
+            options[ExceptionOptions[type]] = types.indexOf(type) >= 0;
+        });
+        await this.sendRequest("option-change", options);
     }
 
-    private async sendConnectMessage(db_filename: string, token: string) {
-        let payload = {
-            "request": true, "type": "connection", "payload": {
-                "db_filename": db_filename,
-            },
-            "token": token
-        };
-        if (this._srcPath.length > 0 && this._dstPath.length > 0) {
-            // add path mapping as well
-            payload["payload"]["path_mapping"] = {};
-            payload["payload"]["path_mapping"][this._srcPath] = this._dstPath;
+    private static toLazyArrays(sizes: { [name: string]: number } | undefined) {
+        const arrays = new Map<string, LazyArray>();
+        if (sizes) {
+            Object.entries(sizes).forEach(([name, size]) => {
+                arrays.set(util.convertToDot(name), {name: name, size: size});
+            });
         }
-        await this.sendPayload(payload);
+        return arrays;
+    }
+
+    private static isException(entry: BreakpointFrameInstance) {
+        return ExceptionTypes.indexOf(<ExceptionType>entry.bp_type) >= 0;
+    }
+
+    // data breakpoints and exceptions are not affected by line breakpoint options
+    private static isLineBreakpoint(entry: BreakpointFrameInstance) {
+        return entry.bp_type !== "data" && !HGDBRuntime.isException(entry);
     }
 
-    private async sendBpLocation(filename: string, line_num: number, token: string, column_num?: number) {
-        const payload = {
-            "request": true, "type": "bp-location", "token": token,
-            "payload": {"filename": filename, "line_num": line_num}
+    private async sendConnectMessage(db_filename: string) {
+        // path mapping is done on our side in both directions, so the server
+        // always sees the paths stored in the symbol table
+        let payload: RequestPayloads["connection"] = {
+            "db_filename": db_filename,
         };
+        await this.sendRequest("connection", payload);
+    }
+
+    private async sendBpLocation(filename: string, line_num: number, column_num?: number) {
+        const payload: RequestPayloads["bp-location"] = {"filename": this.toRemotePath(filename), "line_num": line_num};
         if (column_num) {
-            payload["payload"]["column_num"] = column_num;
+            payload.column_num = column_num;
         }
-        await this.sendPayload(payload);
+        const bps = await this.sendRequest("bp-location", payload);
+        bps.forEach(bp => {
+            if (bp.filename) {
+                bp.filename = this.toLocalPath(bp.filename);
+            }
+        });
+        return bps;
+    }
+
+    private toRemotePath(filename: string) {
+        return util.mapPath(filename, this._pathMappings, true);
+    }
+
+    private toLocalPath(filename: string) {
+        return util.mapPath(filename, this._pathMappings, false);
     }
 
     /**
@@ -778,6 +2017,8 @@ export class HGDBRuntime extends EventEmitter {
         });
         if (hasData) {
             this.sendEvent("stopOnDataBreakpoint");
+        } else if (this._stopOnInstance) {
+            this.sendEvent("stopOnFunctionBreakpoint");
         } else {
             this.sendEvent("stopOnBreakpoint");
         }
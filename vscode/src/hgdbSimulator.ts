@@ -0,0 +1,102 @@
+import {EventEmitter} from 'events';
+import * as child_process from 'child_process';
+import * as Net from 'net';
+
+
+export interface SimulatorOptions {
+    command: string;
+    args: Array<string>;
+    env?: { [name: string]: string };
+    cwd?: string;
+}
+
+/**
+ * Ask the OS for a free TCP port
+ */
+export function getFreePort() {
+    return new Promise<number>((resolve, reject) => {
+        const server = Net.createServer();
+        server.on("error", reject);
+        server.listen(0, () => {
+            const port = (<Net.AddressInfo>server.address()).port;
+            server.close(() => {
+                resolve(port);
+            });
+        });
+    });
+}
+
+/**
+ * Simulator process spawned by the debugger. Output is forwarded through the output event
+ */
+export class HGDBSimulator extends EventEmitter {
+
+    private readonly _options: SimulatorOptions;
+    private _process: child_process.ChildProcess | undefined;
+    private _running = false;
+    private _exitCode: number | null = null;
+
+    constructor(options: SimulatorOptions) {
+        super();
+        this._options = options;
+    }
+
+    public isRunning() {
+        return this._running;
+    }
+
+    public exitCode() {
+        return this._exitCode;
+    }
+
+    /**
+     * Spawn the simulator with the debug server listening on the given port
+     */
+    public start(port: number) {
+        const args = this._options.args.concat([`+DEBUG_PORT=${port}`]);
+        const env = Object.assign({}, process.env, this._options.env);
+        const p = child_process.spawn(this._options.command, args, {
+            cwd: this._options.cwd,
+            env: env
+        });
+        this._process = p;
+        this._running = true;
+        this._exitCode = null;
+
+        p.stdout.on("data", (data) => {
+            this.emit("output", data.toString(), "stdout");
+        });
+        p.stderr.on("data", (data) => {
+            this.emit("output", data.toString(), "stderr");
+        });
+        p.on("error", (error) => {
+            this._running = false;
+            this.emit("output", `Unable to start simulator ${this._options.command}: ${error.message}\n`, "stderr");
+        });
+        p.on("exit", (code) => {
+            this._running = false;
+            this._exitCode = code;
+            this.emit("exit", code);
+        });
+    }
+
+    public kill() {
+        if (this._process && this._running) {
+            this._process.kill();
+        }
+    }
+
+    /**
+     * Kill the simulator and wait for the process to exit
+     */
+    public stop() {
+        return new Promise<void>((resolve) => {
+            if (!this._process || !this._running) {
+                resolve();
+                return;
+            }
+            this._process.once("exit", () => resolve());
+            this._process.kill();
+        });
+    }
+}
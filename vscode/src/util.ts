@@ -1,3 +1,5 @@
+import {TypeInfo} from './hgdbProtocol';
+
 export function convertToDot(name: string): string {
     // convert notations like a[0][1] to a.0.1
     const regex: RegExp = /\[(\d+)]/sg;
@@ -13,4 +15,342 @@ export function convertToDotMap(values: Map<string, string>): Map<string, string
     });
 
     return result;
-}
\ No newline at end of file
+}
+
+export function convertToBracket(name: string): string {
+    // convert notations like a.0.1 back to a[0][1], the names used by the simulator
+    const regex: RegExp = /\.(\d+)(?=\.|$)/g;
+    return name.replace(regex, "[$1]");
+}
+
+export function sleep(ms: number) {
+    return new Promise<void>((resolve) => {
+        setTimeout(resolve, ms);
+    });
+}
+
+export interface PathMapping {
+    localRoot: string;
+    remoteRoot: string;
+}
+
+function stripTrailingSeparator(root: string): string {
+    while (root.length > 1 && (root.endsWith("/") || root.endsWith("\\"))) {
+        root = root.substr(0, root.length - 1);
+    }
+    return root;
+}
+
+export function mapPath(filename: string, mappings: Array<PathMapping>, toRemote: boolean): string {
+    // use the longest matching root so that nested mappings take priority
+    let best_from = "";
+    let best_to = "";
+    mappings.forEach((mapping: PathMapping) => {
+        const from = stripTrailingSeparator(toRemote ? mapping.localRoot : mapping.remoteRoot);
+        const to = stripTrailingSeparator(toRemote ? mapping.remoteRoot : mapping.localRoot);
+        if (from.length === 0 || from.length <= best_from.length) {
+            return;
+        }
+        if (filename === from) {
+            best_from = from;
+            best_to = to;
+        } else if (filename.startsWith(from)) {
+            // only match on path component boundaries
+            const next = filename[from.length];
+            if (next === "/" || next === "\\") {
+                best_from = from;
+                best_to = to;
+            }
+        }
+    });
+    if (best_from.length === 0) {
+        return filename;
+    }
+    return best_to + filename.substr(best_from.length);
+}
+
+export interface LogMessageSegment {
+    text: string;
+    isExpression: boolean;
+}
+
+export function parseLogMessage(message: string): Array<LogMessageSegment> {
+    // split a logpoint message such as "a = {a}" into text and {expression} parts.
+    // {{ and }} are escaped braces
+    let result = new Array<LogMessageSegment>();
+    let text = "";
+    let i = 0;
+    while (i < message.length) {
+        const c = message[i];
+        if ((c === "{" || c === "}") && message[i + 1] === c) {
+            text += c;
+            i += 2;
+        } else if (c === "{") {
+            const end = message.indexOf("}", i + 1);
+            if (end < 0) {
+                // unmatched brace is kept as is
+                text += message.substr(i);
+                break;
+            }
+            if (text.length > 0) {
+                result.push({text: text, isExpression: false});
+                text = "";
+            }
+            result.push({text: message.substring(i + 1, end).trim(), isExpression: true});
+            i = end + 1;
+        } else {
+            text += c;
+            i++;
+        }
+    }
+    if (text.length > 0) {
+        result.push({text: text, isExpression: false});
+    }
+    return result;
+}
+
+export interface HitCondition {
+    op: ">=" | "==" | "%";
+    value: number;
+}
+
+export function parseHitCondition(expr: string): HitCondition | undefined {
+    // supports ">= N", "== N" and "% N". a plain number is the same as ">= N"
+    const match = /^\s*(>=|==|%)?\s*(\d+)\s*$/.exec(expr);
+    if (!match) {
+        return undefined;
+    }
+    const op = match[1] ? <HitCondition["op"]>match[1] : ">=";
+    const value = Number.parseInt(match[2]);
+    if (op === "%" && value === 0) {
+        return undefined;
+    }
+    return {op: op, value: value};
+}
+
+export function isHitConditionMet(condition: HitCondition, count: number): boolean {
+    switch (condition.op) {
+        case ">=":
+            return count >= condition.value;
+        case "==":
+            return count === condition.value;
+        case "%":
+            return count % condition.value === 0;
+    }
+}
+
+export function matchInstanceName(name: string, pattern: string): boolean {
+    // pattern is either a hierarchical instance path, e.g. top.dut.core0.lsu, or a glob where
+    // * matches within one level of the hierarchy and ** matches across levels.
+    // child instances of a match match as well
+    pattern = pattern.trim();
+    if (pattern.length === 0) {
+        return false;
+    }
+    let regex = "";
+    for (let i = 0; i < pattern.length; i++) {
+        const c = pattern[i];
+        if (c === "*") {
+            if (pattern[i + 1] === "*") {
+                regex += ".*";
+                i++;
+            } else {
+                regex += "[^.]*";
+            }
+        } else if (c === "?") {
+            regex += "[^.]";
+        } else {
+            regex += c.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+        }
+    }
+    return new RegExp(`^${regex}(\\..*)?$`).test(name);
+}
+
+export interface NameCompletion {
+    // text that replaces the last segment of the typed name
+    candidates: Array<string>;
+    // number of characters of the typed name being replaced
+    length: number;
+}
+
+export function completeName(typed: string, names: Array<string>): NameCompletion {
+    // complete the last segment of a dotted name such as a.b or a[1].c, using names in the
+    // dotted form produced by convertToDotMap. array indices are completed inside brackets
+    let parent: string;
+    let partial: string;
+    let is_index = false;
+    const index_match = /\[(\d*)$/.exec(typed);
+    if (index_match) {
+        parent = convertToDot(typed.substr(0, index_match.index));
+        partial = index_match[1];
+        is_index = true;
+    } else {
+        const dot = convertToDot(typed);
+        const pos = dot.lastIndexOf(".");
+        parent = pos >= 0 ? dot.substr(0, pos) : "";
+        partial = dot.substr(pos + 1);
+    }
+    const prefix = parent.length > 0 ? parent + "." : "";
+    let candidates = new Array<string>();
+    names.forEach((name: string) => {
+        if (!name.startsWith(prefix)) {
+            return;
+        }
+        const segment = name.substr(prefix.length).split(".")[0];
+        const numeric = /^\d+$/.test(segment);
+        if (segment.length === 0 || numeric !== is_index || !segment.startsWith(partial)) {
+            return;
+        }
+        const candidate = is_index ? segment + "]" : segment;
+        if (candidates.indexOf(candidate) < 0) {
+            candidates.push(candidate);
+        }
+    });
+    return {candidates: candidates, length: partial.length};
+}
+
+export interface ValueLiteral {
+    value: bigint;
+    // based literals, e.g. 0xff or 8'hff, give the raw bits instead of a number
+    based: boolean;
+}
+
+export function parseValueLiteral(text: string): ValueLiteral | undefined {
+    // decimal, 0x/0b/0o and Verilog literals such as 'hff, 8'b1010 or 8'sd5. underscores are allowed as separators
+    const str = text.trim().replace(/_/g, "");
+    if (/^[-+]?\d+$/.test(str)) {
+        return {value: BigInt(str), based: false};
+    }
+    const c_match = /^0([xbo])([0-9a-f]+)$/i.exec(str);
+    if (c_match) {
+        const digits = parseDigits(c_match[2], c_match[1].toLowerCase());
+        return digits === undefined ? undefined : {value: digits, based: true};
+    }
+    const verilog_match = /^(\d*)'(s?)([hbod])([0-9a-f]+)$/i.exec(str);
+    if (!verilog_match) {
+        return undefined;
+    }
+    const base = verilog_match[3].toLowerCase();
+    const value = parseDigits(verilog_match[4], base === "h" ? "x" : base);
+    if (value === undefined) {
+        return undefined;
+    }
+    if (verilog_match[1].length === 0) {
+        return {value: value, based: base !== "d"};
+    }
+    const size = Number.parseInt(verilog_match[1]);
+    if (size === 0 || value >= (BigInt(1) << BigInt(size))) {
+        return undefined;
+    }
+    if (verilog_match[2]) {
+        // sized signed literal is a two's complement number
+        const half = BigInt(1) << BigInt(size - 1);
+        return {value: value >= half ? value - (BigInt(1) << BigInt(size)) : value, based: false};
+    }
+    return {value: value, based: base !== "d"};
+}
+
+function parseDigits(digits: string, base: string) {
+    const pattern = base === "x" ? /^[0-9a-f]+$/i : base === "o" ? /^[0-7]+$/ : base === "b" ? /^[01]+$/ : /^\d+$/;
+    if (!pattern.test(digits)) {
+        return undefined;
+    }
+    return base === "d" ? BigInt(digits) : BigInt(`0${base}${digits}`);
+}
+
+/**
+ * Value of the literal for a signal of the given width, or undefined if it is out of range
+ */
+export function fitValue(literal: ValueLiteral, width: number, signed: boolean): bigint | undefined {
+    const modulus = BigInt(1) << BigInt(width);
+    const half = BigInt(1) << BigInt(width - 1);
+    let value = literal.value;
+    if (literal.based) {
+        if (value < BigInt(0) || value >= modulus) {
+            return undefined;
+        }
+        // raw bits of a signed signal
+        return signed && value >= half ? value - modulus : value;
+    }
+    const [min, max] = signed ? [-half, half - BigInt(1)] : [BigInt(0), modulus - BigInt(1)];
+    return value < min || value > max ? undefined : value;
+}
+
+/**
+ * SystemVerilog style name of the type, e.g. logic signed [7:0] or the enum name
+ */
+export function typeName(type: TypeInfo): string {
+    if (type.enum_name) {
+        return type.enum_name;
+    }
+    const packed = type.packed && type.packed.length > 0 ? type.packed : type.width > 1 ? [type.width] : [];
+    let name = (type.signed ? "logic signed " : "logic ") + packed.map(size => `[${size - 1}:0]`).join("");
+    if (type.unpacked && type.unpacked.length > 0) {
+        name += " " + type.unpacked.map(size => `[0:${size - 1}]`).join("");
+    }
+    return name.trim();
+}
+
+/**
+ * Value text for a signal of the given type. Enum values are shown by name, e.g. IDLE (2'd0)
+ */
+export function formatTypedValue(value: string, type: TypeInfo | undefined, format?: ValueFormat): string {
+    if (!type) {
+        return format ? formatValue(value, format) : value;
+    }
+    const text = format ? formatValue(value, format, type.width, type.signed) : value;
+    const str = value.trim();
+    if (!type.enum_members || !/^-?\d+$/.test(str)) {
+        return text;
+    }
+    const number = BigInt(str);
+    const member = type.enum_members.find(m => BigInt(m.value) === number);
+    if (!member) {
+        return text;
+    }
+    return `${member.name} (${format ? text : `${type.width}'d${str}`})`;
+}
+
+export type ValueFormat = "hex" | "binary" | "decimal" | "signed";
+
+export const ValueFormats: Array<ValueFormat> = ["hex", "binary", "decimal", "signed"];
+
+export function formatValue(value: string, format: ValueFormat, width?: number, signed = false): string {
+    // values come from the simulator as decimal strings. anything else, e.g. x or z, is kept as is.
+    // hex and binary show the raw bits, zero-padded to the width. decimal follows the signedness
+    // of the signal while signed always uses two's complement
+    const text = value.trim();
+    if (!/^-?\d+$/.test(text)) {
+        return value;
+    }
+    let v = BigInt(text);
+    const has_width = width !== undefined && width > 0;
+    if (has_width) {
+        // wrap into the width so that negative values become their raw bits
+        const modulus = BigInt(1) << BigInt(width);
+        v = ((v % modulus) + modulus) % modulus;
+    }
+    switch (format) {
+        case "hex":
+        case "binary": {
+            const negative = v < BigInt(0);
+            const radix = format === "hex" ? 16 : 2;
+            let digits = (negative ? -v : v).toString(radix);
+            if (has_width) {
+                const length = format === "hex" ? Math.ceil(<number>width / 4) : <number>width;
+                digits = digits.padStart(length, "0");
+            }
+            return `${negative ? "-" : ""}${format === "hex" ? "0x" : "0b"}${digits}`;
+        }
+        case "decimal":
+        case "signed": {
+            if (has_width && (format === "signed" || signed)) {
+                const half = BigInt(1) << BigInt(<number>width - 1);
+                if (v >= half) {
+                    v -= BigInt(1) << BigInt(width);
+                }
+            }
+            return v.toString();
+        }
+    }
+}
@@ -0,0 +1,66 @@
+import {expect} from "chai";
+import * as HGDBRuntime from "../src/hgdbRuntime";
+import {HGDBConsole} from "../src/hgdbConsole";
+
+describe('console', function () {
+    it("test commands without frame", async () => {
+        // none of these need a simulator
+        const runtime = new HGDBRuntime.HGDBRuntime("/ignore");
+        const repl = new HGDBConsole(runtime);
+
+        let result = await repl.execute("info time");
+        expect(result).deep.eq({output: "0", resumed: false});
+        result = await repl.execute("info threads");
+        expect(result.output).eq("No threads");
+        result = await repl.execute("info breakpoints");
+        expect(result.output).eq("No breakpoints");
+        result = await repl.execute("info watchpoints");
+        expect(result.output).eq("No watchpoints");
+        result = await repl.execute("info foo");
+        expect(result.output).contains("Usage");
+
+        result = await repl.execute("delete 42");
+        expect(result.output).eq("No breakpoint number 42");
+        result = await repl.execute("delete w1");
+        expect(result.output).eq("No watchpoint w1 set in the Debug Console");
+        result = await repl.execute("thread 1");
+        expect(result.output).contains("Invalid thread");
+        result = await repl.execute("watch a");
+        expect(result.output).eq("Not stopped at any instance");
+        result = await repl.execute("break 10");
+        expect(result.output).eq("No current file. Use break file:line");
+        result = await repl.execute("break");
+        expect(result.output).contains("Usage");
+
+        result = await repl.execute("help");
+        expect(result.output).contains("info breakpoints");
+    });
+
+    it("test print command names", async () => {
+        const runtime = new HGDBRuntime.HGDBRuntime("/ignore");
+        let requests = new Array<any>();
+        (<any>runtime).sendRequest = async (type: string, payload: any) => {
+            requests.push({type: type, payload: payload});
+            return {result: "1"};
+        };
+        await runtime.handleREPL("scope-breakpoint 2");
+        const repl = new HGDBConsole(runtime);
+
+        // signals named like commands are evaluated instead of run
+        let result = await repl.execute("print clear");
+        expect(result).deep.eq({output: "1", resumed: false});
+        result = await repl.execute("print run-to-time 5");
+        expect(result).deep.eq({output: "1", resumed: false});
+        expect(requests.map(r => r.type)).deep.eq(["evaluation", "evaluation"]);
+        expect(requests[0].payload.expression).eq("clear");
+        // the scope is kept
+        expect(requests[1].payload.breakpoint_id).eq(2);
+    });
+
+    it("test is command", () => {
+        expect(HGDBConsole.isCommand("info threads")).eq(true);
+        expect(HGDBConsole.isCommand(" scope-breakpoint 1")).eq(true);
+        expect(HGDBConsole.isCommand("io.req")).eq(false);
+        expect(HGDBConsole.isCommand("a + b")).eq(false);
+    });
+});
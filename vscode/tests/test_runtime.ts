@@ -1,8 +1,10 @@
 import {assert, expect} from "chai";
 import * as HGDBRuntime from "../src/hgdbRuntime";
+import {BreakpointFrame, HGDBRequestError, RequestErrorKind} from "../src/hgdbProtocol";
 import * as child_process from "child_process";
 import * as path from "path";
 import * as fs from "fs";
+import {EventEmitter} from "events";
 
 
 function sleep(ms) {
@@ -18,11 +20,16 @@ function get_random_port() {
 }
 
 
-function start_mock_server(port, extra_flags?: Array<string>) {
+function get_mock_server_path() {
     // the root is the the very top of the repo, which is shared by all debuggers for testing
     const root = path.dirname(path.dirname(path.dirname(__filename)));
     const build_dir = path.join(root, "build");
-    const exe = path.join(build_dir, "tests", "test_debug_server");
+    return path.join(build_dir, "tests", "test_debug_server");
+}
+
+
+function start_mock_server(port, extra_flags?: Array<string>) {
+    const exe = get_mock_server_path();
     if (!extra_flags) {
         extra_flags = [];
     }
@@ -43,6 +50,54 @@ async function set_breakpoint(runtime: HGDBRuntime.HGDBRuntime, breakpoint_id: n
     await runtime.setBreakpoint(breakpoint_id);
 }
 
+// runtime without a simulator. every request succeeds
+function stub_runtime(evaluate: (expression: string) => string = () => "1") {
+    let runtime = new HGDBRuntime.HGDBRuntime("/ignore");
+    let requests = new Array<{ type: string, payload: any }>();
+    const stub = <any>runtime;
+    stub._connected = true;
+    stub.sendRequest = async (type: string, payload: any) => {
+        requests.push({type: type, payload: payload});
+        return type === "evaluation" ? {result: evaluate(payload.expression)} : {};
+    };
+    // stop events are recorded in order
+    let events = new Array<string>();
+    ["stopOnBreakpoint", "stopOnFunctionBreakpoint", "stopOnDataBreakpoint", "stopOnRunTarget",
+        "stopOnException", "stopOnPause", "stopOnGoto"].forEach(event => {
+        runtime.on(event, () => {
+            events.push(event);
+        });
+    });
+    return {runtime: runtime, requests: requests, events: events};
+}
+
+function make_frame(breakpoint_id: number, instance_name = "top.dut"): BreakpointFrame {
+    return {
+        filename: "/tmp/test.py", line_num: 1, column_num: 0, time: 10,
+        instances: [{
+            instance_id: 1, instance_name: instance_name, breakpoint_id: breakpoint_id, namespace_id: 0,
+            bp_type: "normal", local: {a: "1"}, generator: {}
+        }]
+    };
+}
+
+// connection that never replies
+function fake_connection() {
+    let connection: any = new EventEmitter();
+    connection.sent = new Array<any>();
+    connection.send = (data: string) => {
+        connection.sent.push(JSON.parse(data));
+    };
+    connection.close = () => undefined;
+    return connection;
+}
+
+async function hit_frame(runtime: HGDBRuntime.HGDBRuntime, frame: BreakpointFrame) {
+    await (<any>runtime).onBreakpoint(frame);
+    // events are emitted asynchronously
+    await sleep(10);
+}
+
 
 describe('runtime', function () {
     it('test connect/stop', async () => {
@@ -72,6 +127,205 @@ describe('runtime', function () {
         expect(p.exitCode).eq(0);
     });
 
+    it("test data breakpoint without frame", async () => {
+        const port = get_random_port();
+        let p = start_mock_server(port, ["+NO_EVAL"]);
+
+        let runtime = new HGDBRuntime.HGDBRuntime("/ignore");
+        runtime.setRuntimePort(port);
+
+        await sleep(100);
+        await runtime.start("ignore");
+        // not stopped at any breakpoint, so there is no breakpoint id to attach to
+        const valid = await runtime.validateDataBreakpoint(1, "a");
+        expect(valid).eq(false);
+        expect(runtime.getDataBreakpointID(1, "a")).eq(undefined);
+        const statuses = await runtime.setDataBreakpoints([{dataId: "1-a"}]);
+        expect(statuses[0].verified).eq(false);
+
+        p.kill();
+    });
+
+    it("test reconnect", async () => {
+        const port = get_random_port();
+        let p = start_mock_server(port, ["+NO_EVAL"]);
+
+        let runtime = new HGDBRuntime.HGDBRuntime("/ignore");
+        runtime.setRuntimePort(port);
+        runtime.setReconnect(5, 100);
+        let reconnected = false;
+        runtime.on("reconnected", () => {
+            reconnected = true;
+        });
+
+        await set_breakpoint(runtime, 0);
+        // simulate a dropped connection by restarting the server on the same port
+        p.kill();
+        await sleep(100);
+        p = start_mock_server(port, ["+NO_EVAL"]);
+        await sleep(500);
+        assert(reconnected, "Unable to reconnect to simulator");
+
+        // breakpoint should be restored
+        const payload = await runtime.getSimulatorStatus("breakpoints");
+        expect(payload.breakpoints.length).eq(1);
+
+        p.kill();
+    });
+
+    it("test request timeout and close", async () => {
+        let runtime = new HGDBRuntime.HGDBRuntime("/ignore");
+        const stub = <any>runtime;
+        runtime.setRequestTimeout(20);
+        const connection = fake_connection();
+        stub._connection = connection;
+        stub.setConnection(connection);
+
+        const timed_out = stub.sendRequest("debugger-info", {command: "breakpoints"}).catch(error => error);
+        expect(connection.sent.length).eq(1);
+        const error1 = await timed_out;
+        expect(error1.kind).eq("timeout");
+        expect(stub._pendingRequests.size).eq(0);
+
+        // no timeout. only the closed connection settles it
+        runtime.setRequestTimeout(0);
+        const closed = stub.sendRequest("debugger-info", {command: "breakpoints"}).catch(error => error);
+        await sleep(50);
+        connection.emit("close", 1000, "");
+        const error2 = await closed;
+        expect(error2.kind).eq("closed");
+        expect(stub._pendingRequests.size).eq(0);
+    });
+
+    it("test queued requests settle", async () => {
+        let runtime = new HGDBRuntime.HGDBRuntime("/ignore");
+        const stub = <any>runtime;
+        // not connected yet, so the request is queued
+        const queued = stub.sendRequest("debugger-info", {command: "breakpoints"}).catch(error => error);
+        expect(stub._queuedPayload.length).eq(1);
+        await runtime.stop();
+        const error1 = await queued;
+        expect(error1.kind).eq("closed");
+
+        // failed start
+        runtime = new HGDBRuntime.HGDBRuntime("/ignore");
+        runtime.setRuntimePort(get_random_port());
+        const queued2 = (<any>runtime).sendRequest("debugger-info", {command: "breakpoints"}).catch(error => error);
+        let started = true;
+        await runtime.start("ignore").catch(() => {
+            started = false;
+        });
+        expect(started).eq(false);
+        const error2 = await queued2;
+        expect(error2.kind).eq("connection");
+        expect((<any>runtime)._pendingRequests.size).eq(0);
+    });
+
+    it("test detach clears exception options", async () => {
+        const {runtime, requests} = stub_runtime();
+        const stub = <any>runtime;
+        stub._connection = fake_connection();
+        await runtime.setExceptionBreakpoints(["assertion"]);
+        await runtime.detach();
+        const options = requests.filter(r => r.type === "option-change");
+        expect(options[options.length - 1].payload).deep.eq({
+            break_on_assertion: false, break_on_error: false, break_on_x_propagation: false
+        });
+        // the options are cleared before the simulation resumes
+        const last = requests[requests.length - 1];
+        expect(last.payload.command).eq("continue");
+    });
+
+    it("test no reconnect after normal close", async () => {
+        for (const [code, exited] of [[1000, false], [1006, true]]) {
+            let runtime = new HGDBRuntime.HGDBRuntime("/ignore");
+            runtime.setReconnect(5, 10);
+            const stub = <any>runtime;
+            if (exited) {
+                // spawned simulator that has finished
+                stub._simulator = {isRunning: () => false};
+            }
+            const connection = new EventEmitter();
+            stub.setConnection(connection);
+            stub._connected = true;
+            let ended = false;
+            let reconnecting = false;
+            runtime.on("end", () => {
+                ended = true;
+            });
+            runtime.on("reconnecting", () => {
+                reconnecting = true;
+            });
+            connection.emit("close", code, "");
+            await sleep(50);
+            assert(ended, "Session should end");
+            assert(!reconnecting, "Should not reconnect");
+        }
+    });
+
+    it("test wait for simulator", async () => {
+        const port = get_random_port();
+
+        let runtime = new HGDBRuntime.HGDBRuntime("/ignore");
+        runtime.setRuntimePort(port);
+        runtime.setWaitTimeout(5000);
+        // start the debugger before the simulator
+        const started = runtime.start("ignore");
+        await sleep(500);
+        let p = start_mock_server(port, ["+NO_EVAL"]);
+        await started;
+
+        const payload = await runtime.getSimulatorStatus("breakpoints");
+        expect(payload.breakpoints.length).eq(0);
+
+        p.kill();
+    });
+
+    it("test spawn simulator", async () => {
+        const exe = get_mock_server_path();
+        assert(fs.existsSync(exe), "Unable to find " + path.basename(exe));
+
+        let runtime = new HGDBRuntime.HGDBRuntime("/ignore");
+        runtime.setSimulator({command: exe, args: ["+DEBUG_LOG", "+DEBUG_NO_DB", "+NO_EVAL"]});
+        let output = "";
+        runtime.on("output", (text: string) => {
+            output += text;
+        });
+
+        await runtime.start("ignore");
+        const payload = await runtime.getSimulatorStatus("breakpoints");
+        expect(payload.breakpoints.length).eq(0);
+
+        await runtime.stop();
+        await sleep(100);
+        assert(output.includes("Simulator exited"), "Simulator should be stopped");
+    });
+
+    it("test detach", async () => {
+        const port = get_random_port();
+        let p = start_mock_server(port, ["+NO_EVAL"]);
+        let closed = false;
+        p.on("close", () => {
+            closed = true;
+        });
+
+        let runtime = new HGDBRuntime.HGDBRuntime("/ignore");
+        runtime.setRuntimePort(port);
+        await set_breakpoint(runtime, 0);
+        await runtime.detach();
+        await sleep(100);
+        assert(!closed, "Simulation should keep running after detach");
+
+        // breakpoints should be removed
+        let new_runtime = new HGDBRuntime.HGDBRuntime("/ignore");
+        new_runtime.setRuntimePort(port);
+        await new_runtime.start("ignore");
+        const payload = await new_runtime.getSimulatorStatus("breakpoints");
+        expect(payload.breakpoints.length).eq(0);
+
+        p.kill();
+    });
+
     it("test bp location request", async () => {
         const port = get_random_port();
         let p = start_mock_server(port, ["+NO_EVAL"]);
@@ -232,8 +486,8 @@ describe('runtime', function () {
         await runtime.continue();
         await sleep(200);
         // we are at breakpoints
-        const res = await runtime.setValue("a", 42, 1, false);
-        expect(res).eq(true);
+        const res = await runtime.setValue("a", "0x2a", 1, false);
+        expect(res).eq("42");
         await runtime.continue();
         await sleep(200);
         await runtime.handleREPL("scope-breakpoint 0");
@@ -243,4 +497,370 @@ describe('runtime', function () {
         p.kill();
     });
 
+    it("test logpoint frames", async () => {
+        const {runtime, requests, events} = stub_runtime();
+        (<any>runtime)._activeBreakpoints.set(0, {logMessage: "a = {a}"});
+        let output = "";
+        runtime.on("output", (text: string) => {
+            output += text;
+        });
+
+        // continue does not stop at a logpoint
+        await runtime.continue();
+        await hit_frame(runtime, make_frame(0));
+        expect(output).eq("[10] top.dut: a = 1\n");
+        expect(events.length).eq(0);
+        expect(requests[requests.length - 1].payload.command).eq("continue");
+
+        // reverse continue does not stop either, and keeps running backwards
+        await runtime.reverseContinue();
+        await hit_frame(runtime, make_frame(0));
+        expect(events.length).eq(0);
+        expect(requests[requests.length - 1].payload.command).eq("reverse_continue");
+
+        // stepping onto a logpoint prints the message and stops
+        const commands = ["step_over", "step_back"];
+        for (const command of commands) {
+            if (command === "step_over") {
+                await runtime.step();
+            } else {
+                await runtime.stepBack();
+            }
+            const num_requests = requests.length;
+            await hit_frame(runtime, make_frame(0));
+            expect(events[events.length - 1]).eq("stopOnBreakpoint");
+            // nothing resumed the simulation
+            expect(requests.slice(num_requests).some(r => r.type === "command")).eq(false);
+        }
+        expect(events.length).eq(commands.length);
+        expect(output.split("\n").length - 1).eq(commands.length + 2);
+    });
+
+    it("test hit count frames", async () => {
+        const {runtime, requests, events} = stub_runtime();
+        const stub = <any>runtime;
+        stub._activeBreakpoints.set(0, {hitCondition: ">= 3"});
+
+        await runtime.continue();
+        await hit_frame(runtime, make_frame(0));
+        expect(events.length).eq(0);
+        expect(requests[requests.length - 1].payload.command).eq("continue");
+
+        // a step stops even though the hit condition is not met, and is not counted
+        await runtime.step();
+        await hit_frame(runtime, make_frame(0));
+        expect(events).deep.eq(["stopOnBreakpoint"]);
+        expect(stub._hitCounts.get(0)).eq(1);
+
+        await runtime.continue();
+        await hit_frame(runtime, make_frame(0));
+        expect(events.length).eq(1);
+        await hit_frame(runtime, make_frame(0));
+        expect(events.length).eq(2);
+        expect(stub._hitCounts.get(0)).eq(3);
+
+        // same for data breakpoints
+        stub._dataBreakpoints.set("w", {
+            number: 1, location: {instance: "top.dut", var: "a", filename: "/tmp/test.py", line: 1},
+            breakpoint_id: 1, condition: "", hitCondition: "== 2", fromConsole: false
+        });
+        let frame = make_frame(1);
+        frame.instances[0].bp_type = "data";
+        await runtime.step();
+        await hit_frame(runtime, frame);
+        expect(events[events.length - 1]).eq("stopOnDataBreakpoint");
+        expect(stub._dataHitCounts.has("w")).eq(false);
+    });
+
+    it("test exception frames", async () => {
+        const {runtime, events} = stub_runtime();
+        const stub = <any>runtime;
+        stub._activeBreakpoints.set(0, {});
+        runtime.setInstanceBreakpoints(["top.other"]);
+        await runtime.continue();
+        expect(stub._scanning).eq(true);
+
+        // only the failing instances are part of the stop
+        let frame = make_frame(0);
+        let failure = make_frame(5, "top.dut.checker").instances[0];
+        failure.bp_type = "assertion";
+        frame.instances.push(failure);
+        frame.reason = "fifo overflow";
+        await (<any>runtime).onBreakpoint(frame, true);
+        await sleep(10);
+        expect(events).deep.eq(["stopOnException"]);
+        expect(stub._scanning).eq(false);
+        expect(runtime.getCurrentGeneratorNames().size).eq(1);
+        expect(runtime.getExceptionInfo()).deep.eq({type: "assertion", description: "fifo overflow"});
+
+        // default description
+        frame = make_frame(6);
+        frame.instances[0].bp_type = "x-propagation";
+        await (<any>runtime).onBreakpoint(frame, true);
+        expect(runtime.getExceptionInfo()).deep.eq({type: "x-propagation", description: "x-propagation at /tmp/test.py:1"});
+
+        // cleared at the next stop
+        await runtime.step();
+        await hit_frame(runtime, make_frame(0));
+        expect(runtime.getExceptionInfo()).eq(undefined);
+    });
+
+    it("test unsupported exception options", async () => {
+        let runtime = new HGDBRuntime.HGDBRuntime("/ignore");
+        (<any>runtime).sendRequest = async () => {
+            throw new HGDBRequestError(RequestErrorKind.Server, "Unknown option");
+        };
+        expect(await runtime.setExceptionBreakpoints(["assertion"])).eq(false);
+    });
+
+    it("test run target frames", async () => {
+        const {runtime, requests, events} = stub_runtime();
+        (<any>runtime)._activeBreakpoints.set(0, {logMessage: "a = {a}"});
+
+        // run to time keeps going to the same target
+        await runtime.runToTime(100);
+        await hit_frame(runtime, make_frame(0));
+        expect(events.length).eq(0);
+        expect(requests[requests.length - 1].payload).deep.eq({command: "run_to_time", time: 100});
+
+        // cycles cannot be resumed without running too far. stop where the frame is
+        await runtime.stepCycles(100);
+        const num_requests = requests.length;
+        await hit_frame(runtime, make_frame(0));
+        expect(events).deep.eq(["stopOnBreakpoint"]);
+        expect(requests.slice(num_requests).some(r => r.type === "command")).eq(false);
+    });
+
+    it("test batched type lookups", async () => {
+        let runtime = new HGDBRuntime.HGDBRuntime("/ignore");
+        let requests = new Array<any>();
+        (<any>runtime).sendRequest = async (type: string, payload: any) => {
+            requests.push(payload);
+            // b is unknown to the simulator
+            return {a: {width: 8, signed: false}, c: {width: 1, signed: false}};
+        };
+        let types = await runtime.getVariableTypes(["a", "b", "c"], 1, false);
+        expect(requests).deep.eq([{var_names: ["a", "b", "c"], instance_id: 1}]);
+        expect(types.get("a")).deep.eq({width: 8, signed: false});
+        expect(types.get("b")).eq(undefined);
+        // only names not cached yet are fetched
+        types = await runtime.getVariableTypes(["a", "b", "d"], 1, false);
+        expect(requests.length).eq(2);
+        expect(requests[1].var_names).deep.eq(["d"]);
+        types = await runtime.getVariableTypes(["a", "c"], 1, false);
+        expect(requests.length).eq(2);
+        expect(types.get("c")).deep.eq({width: 1, signed: false});
+        // names from the Variables view are sent the way the simulator reports them
+        types = await runtime.getVariableTypes(["mem.3", "mem[3]", "io.2.x"], 1, false);
+        expect(requests[2].var_names).deep.eq(["mem[3]", "io[2].x"]);
+        expect(types.has("mem.3")).eq(true);
+        expect(types.has("mem[3]")).eq(true);
+    });
+
+    it("test lazy array pages", async () => {
+        const {runtime, requests} = stub_runtime();
+        const stub = <any>runtime;
+        stub._activeBreakpoints.set(0, {});
+        stub.sendRequest = async (type: string, payload: any) => {
+            requests.push({type: type, payload: payload});
+            if (type !== "array-values") {
+                return {};
+            }
+            let values = {};
+            for (let i = payload.start; i < payload.start + payload.count; i++) {
+                values[`${payload.var_name}[${i}]`] = `${i}`;
+            }
+            return values;
+        };
+        let frame = make_frame(0);
+        frame.instances[0].local_arrays = {"mem": 10, "io.regs[1]": 4};
+        await runtime.continue();
+        await hit_frame(runtime, frame);
+
+        const sizes = runtime.getLazyArraySizes(1, 0, true);
+        expect(Array.from(sizes.entries())).deep.eq([["mem", 10], ["io.regs.1", 4]]);
+        expect(runtime.getLazyArraySizes(1, 0, false).size).eq(0);
+        expect(runtime.getLazyArraySizes(2, 0, true).size).eq(0);
+
+        const vars = runtime.getCurrentLocalVariables().get(1)![0];
+        await runtime.fetchArrayValues("mem", 1, 0, true, 2, 3);
+        expect(requests[requests.length - 1].payload).deep.eq({
+            var_name: "mem", start: 2, count: 3, breakpoint_id: 0, namespace_id: 0
+        });
+        expect(vars.get("mem.2")).eq("2");
+        expect(vars.get("mem.4")).eq("4");
+        expect(vars.has("mem.5")).eq(false);
+        // fetched pages are not requested again
+        let num_requests = requests.length;
+        await runtime.fetchArrayValues("mem", 1, 0, true, 2, 3);
+        expect(requests.length).eq(num_requests);
+
+        // pages are cut at the end of the array
+        await runtime.fetchArrayValues("mem", 1, 0, true, 8, 5);
+        expect(requests[requests.length - 1].payload.count).eq(2);
+        expect(vars.get("mem.9")).eq("9");
+        num_requests = requests.length;
+        await runtime.fetchArrayValues("mem", 1, 0, true, 10, 5);
+        await runtime.fetchArrayValues("mem", 1, 0, true, 0, 0);
+        expect(requests.length).eq(num_requests);
+
+        // arrays are requested by the name the simulator uses
+        await runtime.fetchArrayValues("io.regs.1", 1, 0, true, 0, 4);
+        expect(requests[requests.length - 1].payload.var_name).eq("io.regs[1]");
+        expect(vars.get("io.regs.1.3")).eq("3");
+
+        // pages of the previous stop are fetched again
+        await runtime.continue();
+        await hit_frame(runtime, frame);
+        num_requests = requests.length;
+        await runtime.fetchArrayValues("mem", 1, 0, true, 2, 3);
+        expect(requests.length).eq(num_requests + 1);
+    });
+
+    it("test conditions while scanning for instances", async () => {
+        let a = "0";
+        const {runtime, requests, events} = stub_runtime(expression => expression === "a == 2" ? a : "1");
+        const stub = <any>runtime;
+        stub._activeBreakpoints.set(0, {condition: "a == 2", hitCondition: ">= 1", logMessage: "a = {a}"});
+        stub._activeBreakpoints.set(1, {condition: "a == 2"});
+        runtime.setInstanceBreakpoints(["top.other"]);
+        let output = "";
+        runtime.on("output", (text: string) => {
+            output += text;
+        });
+
+        await runtime.continue();
+        expect(requests[requests.length - 1].payload.command).eq("step_over");
+        // condition is false. the locations are skipped without counting or logging
+        await hit_frame(runtime, make_frame(0));
+        await hit_frame(runtime, make_frame(1));
+        expect(events.length).eq(0);
+        expect(output).eq("");
+        expect(stub._hitCounts.has(0)).eq(false);
+        expect(requests[requests.length - 1].payload.command).eq("step_over");
+        // matching instance still stops
+        await hit_frame(runtime, make_frame(1, "top.other"));
+        expect(events).deep.eq(["stopOnFunctionBreakpoint"]);
+
+        a = "1";
+        await runtime.continue();
+        await hit_frame(runtime, make_frame(0));
+        expect(output).eq("[10] top.dut: a = 1\n");
+        expect(stub._hitCounts.get(0)).eq(1);
+        await hit_frame(runtime, make_frame(1));
+        expect(events).deep.eq(["stopOnFunctionBreakpoint", "stopOnBreakpoint"]);
+    });
+
+    it("test goto frames", async () => {
+        const {runtime, requests, events} = stub_runtime();
+        (<any>runtime)._activeBreakpoints.set(0, {});
+
+        await runtime.goto(5);
+        expect(requests[requests.length - 1].payload.command).eq("step_over");
+        // user breakpoints on the way are skipped
+        await hit_frame(runtime, make_frame(0));
+        expect(events.length).eq(0);
+        expect(requests.length).eq(2);
+        expect(requests[1].payload.command).eq("step_over");
+
+        // only the target location is part of the stop
+        let frame = make_frame(0);
+        frame.instances.push(make_frame(5, "top.dut.child").instances[0]);
+        frame.instances[1].instance_id = 2;
+        await hit_frame(runtime, frame);
+        expect(events).deep.eq(["stopOnGoto"]);
+        expect(requests.length).eq(2);
+        expect(Array.from(runtime.getCurrentGeneratorNames().values())).deep.eq(["top.dut.child"]);
+    });
+
+    it("test step in/out payloads", async () => {
+        const {runtime, requests} = stub_runtime();
+        (<any>runtime)._activeBreakpoints.set(3, {});
+        await runtime.continue();
+        await hit_frame(runtime, make_frame(3));
+
+        await runtime.stepIn(1, 7);
+        expect(requests[requests.length - 1].payload).deep.eq({command: "step_in", breakpoint_id: 3, target: 7});
+        await runtime.stepOut(1);
+        expect(requests[requests.length - 1].payload).deep.eq({command: "step_out", breakpoint_id: 3});
+        // unknown instances leave the choice to the simulator
+        await runtime.stepIn(42);
+        expect(requests[requests.length - 1].payload).deep.eq({command: "step_in"});
+    });
+
+    it("test pause frames", async () => {
+        const {runtime, requests, events} = stub_runtime();
+        const stub = <any>runtime;
+        // locations the user filtered out still stop a pause
+        stub._activeBreakpoints.set(0, {logMessage: "a = {a}"});
+        stub._activeBreakpoints.set(1, {hitCondition: "> 5"});
+        let output = "";
+        runtime.on("output", (text: string) => {
+            output += text;
+        });
+
+        await runtime.continue();
+        await runtime.pause();
+        expect(requests[requests.length - 1].payload.command).eq("step_over");
+        const num_requests = requests.length;
+        let frame = make_frame(0);
+        frame.instances.push(make_frame(1, "top.dut.child").instances[0]);
+        frame.instances[1].instance_id = 2;
+        await hit_frame(runtime, frame);
+        expect(events).deep.eq(["stopOnPause"]);
+        expect(requests.length).eq(num_requests);
+        expect(runtime.getCurrentGeneratorNames().size).eq(2);
+        expect(output).eq("");
+        expect(stub._hitCounts.size).eq(0);
+
+        // the next run filters locations again
+        await runtime.continue();
+        await hit_frame(runtime, make_frame(0));
+        expect(events).deep.eq(["stopOnPause"]);
+        expect(output).eq("[10] top.dut: a = 1\n");
+    });
+
+    it("test restart fallback", async () => {
+        const {runtime, requests} = stub_runtime();
+        const stub = <any>runtime;
+        let continued = 0;
+        runtime.on("continued", () => {
+            continued++;
+        });
+
+        // rewinding in place
+        await runtime.restart();
+        expect(requests[requests.length - 1].payload).deep.eq({command: "jump", time: 0});
+        await sleep(10);
+        expect(continued).eq(1);
+
+        // simulator without reverse execution
+        stub.sendRequest = async () => {
+            throw new HGDBRequestError(RequestErrorKind.Server, "Unknown command");
+        };
+        let error: Error | undefined;
+        await runtime.restart().catch(e => {
+            error = e;
+        });
+        expect(error?.message).contains("Unable to restart");
+
+        // a spawned simulator is started again instead
+        let stopped = false;
+        let relaunched = false;
+        stub._simulator = {
+            stop: async () => {
+                stopped = true;
+            },
+            isRunning: () => !stopped
+        };
+        stub.closeConnection = async () => undefined;
+        stub.launch = async (restore: boolean) => {
+            relaunched = restore;
+        };
+        await runtime.restart();
+        expect(stopped).eq(true);
+        expect(relaunched).eq(true);
+        expect(stub._reconnecting).eq(false);
+    });
+
 });
\ No newline at end of file
@@ -16,6 +16,12 @@ describe('util', function () {
         expect(result3).eq(input3);
     });
 
+    it("test convert to bracket", () => {
+        expect(util.convertToBracket("a.0.1")).eq("a[0][1]");
+        expect(util.convertToBracket("a.0.b1")).eq("a[0].b1");
+        expect(util.convertToBracket("a[0].b")).eq("a[0].b");
+    });
+
     it("test convert to dot map", () => {
         const inputs = new Map<string, string>([["a[0][0]", "1"], ["a[0][1]", "2"]]);
         const result = util.convertToDotMap(inputs);
@@ -27,4 +33,178 @@ describe('util', function () {
         assert(entry2);
         expect(entry2).eq("2");
     });
-});
\ No newline at end of file
+
+    it("test map path", () => {
+        const mappings = [{localRoot: "/home/user/src", remoteRoot: "/farm/build/src"},
+            {localRoot: "/home/user/ip/", remoteRoot: "/shared/ip"},
+            {localRoot: "/home/user/ip/fifo", remoteRoot: "/shared/fifo"}];
+        expect(util.mapPath("/home/user/src/top.py", mappings, true)).eq("/farm/build/src/top.py");
+        expect(util.mapPath("/farm/build/src/top.py", mappings, false)).eq("/home/user/src/top.py");
+        // trailing separator in the root
+        expect(util.mapPath("/home/user/ip/alu.py", mappings, true)).eq("/shared/ip/alu.py");
+        // longest root wins
+        expect(util.mapPath("/home/user/ip/fifo/fifo.py", mappings, true)).eq("/shared/fifo/fifo.py");
+        expect(util.mapPath("/shared/fifo/fifo.py", mappings, false)).eq("/home/user/ip/fifo/fifo.py");
+        // only matches whole path components
+        expect(util.mapPath("/home/user/src2/top.py", mappings, true)).eq("/home/user/src2/top.py");
+        // no mapping
+        expect(util.mapPath("/tmp/test.py", mappings, true)).eq("/tmp/test.py");
+    });
+
+    it("test parse log message", () => {
+        const result1 = util.parseLogMessage("a = {a}, b = { b + 1 }");
+        expect(result1.length).eq(4);
+        expect(result1[0]).deep.eq({text: "a = ", isExpression: false});
+        expect(result1[1]).deep.eq({text: "a", isExpression: true});
+        expect(result1[2]).deep.eq({text: ", b = ", isExpression: false});
+        expect(result1[3]).deep.eq({text: "b + 1", isExpression: true});
+
+        // escaped and unmatched braces
+        const result2 = util.parseLogMessage("{{a}} {b");
+        expect(result2).deep.eq([{text: "{a} {b", isExpression: false}]);
+    });
+
+    it("test hit condition", () => {
+        const cond1 = util.parseHitCondition(">= 3");
+        assert(cond1);
+        if (cond1) {
+            expect(util.isHitConditionMet(cond1, 2)).eq(false);
+            expect(util.isHitConditionMet(cond1, 3)).eq(true);
+            expect(util.isHitConditionMet(cond1, 4)).eq(true);
+        }
+        const cond2 = util.parseHitCondition("==1000");
+        assert(cond2);
+        if (cond2) {
+            expect(util.isHitConditionMet(cond2, 999)).eq(false);
+            expect(util.isHitConditionMet(cond2, 1000)).eq(true);
+            expect(util.isHitConditionMet(cond2, 1001)).eq(false);
+        }
+        const cond3 = util.parseHitCondition("% 4");
+        assert(cond3);
+        if (cond3) {
+            expect(util.isHitConditionMet(cond3, 3)).eq(false);
+            expect(util.isHitConditionMet(cond3, 8)).eq(true);
+        }
+        // plain number
+        expect(util.parseHitCondition("5")).deep.eq({op: ">=", value: 5});
+        // invalid
+        expect(util.parseHitCondition("< 5")).eq(undefined);
+        expect(util.parseHitCondition("% 0")).eq(undefined);
+        expect(util.parseHitCondition("a")).eq(undefined);
+    });
+
+    it("test match instance name", () => {
+        // plain path matches the instance and its children
+        expect(util.matchInstanceName("top.dut.core0.lsu", "top.dut.core0.lsu")).eq(true);
+        expect(util.matchInstanceName("top.dut.core0.lsu.queue", "top.dut.core0.lsu")).eq(true);
+        expect(util.matchInstanceName("top.dut.core0.lsu_ctrl", "top.dut.core0.lsu")).eq(false);
+        expect(util.matchInstanceName("top.dut.core0", "top.dut.core0.lsu")).eq(false);
+        // glob
+        expect(util.matchInstanceName("top.dut.core1.lsu", "top.dut.core*.lsu")).eq(true);
+        expect(util.matchInstanceName("top.dut.core1.x.lsu", "top.dut.core*.lsu")).eq(false);
+        expect(util.matchInstanceName("top.dut.core1.x.lsu", "top.**.lsu")).eq(true);
+        expect(util.matchInstanceName("top.dut.core1", "top.dut.core?")).eq(true);
+        // array instances
+        expect(util.matchInstanceName("top.gen[1].inst", "top.gen[1]")).eq(true);
+        expect(util.matchInstanceName("top.gen1.inst", "top.gen[1]")).eq(false);
+    });
+
+    it("test complete name", () => {
+        const names = ["a.b", "a.c.0", "a.c.1", "array.0", "array.1", "array.10", "top.dut"];
+        // top level
+        expect(util.completeName("a", names)).deep.eq({candidates: ["a", "array"], length: 1});
+        expect(util.completeName("", names).candidates).deep.eq(["a", "array", "top"]);
+        // struct members
+        expect(util.completeName("a.", names)).deep.eq({candidates: ["b", "c"], length: 0});
+        expect(util.completeName("a.c", names)).deep.eq({candidates: ["c"], length: 1});
+        // array indices
+        expect(util.completeName("array[", names)).deep.eq({candidates: ["0]", "1]", "10]"], length: 0});
+        expect(util.completeName("array[1", names)).deep.eq({candidates: ["1]", "10]"], length: 1});
+        expect(util.completeName("a.c[", names).candidates).deep.eq(["0]", "1]"]);
+        // no match
+        expect(util.completeName("b.", names).candidates).deep.eq([]);
+    });
+
+    it("test format value", () => {
+        // zero-padded to the width
+        expect(util.formatValue("10", "hex", 16)).eq("0x000a");
+        expect(util.formatValue("5", "binary", 4)).eq("0b0101");
+        expect(util.formatValue("5", "binary")).eq("0b101");
+        // negative values are shown as raw bits when the width is known
+        expect(util.formatValue("-1", "hex", 8)).eq("0xff");
+        expect(util.formatValue("-1", "hex")).eq("-0x1");
+        // signedness
+        expect(util.formatValue("255", "decimal", 8)).eq("255");
+        expect(util.formatValue("255", "decimal", 8, true)).eq("-1");
+        expect(util.formatValue("255", "signed", 8)).eq("-1");
+        expect(util.formatValue("127", "signed", 8)).eq("127");
+        // wider than 53 bits
+        expect(util.formatValue("340282366920938463463374607431768211455", "hex", 128)).eq("0x" + "f".repeat(32));
+        // not a number
+        expect(util.formatValue("x", "hex", 8)).eq("x");
+    });
+
+    it("test parse value literal", () => {
+        expect(util.parseValueLiteral("42")).deep.eq({value: BigInt(42), based: false});
+        expect(util.parseValueLiteral("-3")).deep.eq({value: BigInt(-3), based: false});
+        expect(util.parseValueLiteral("0xFF")).deep.eq({value: BigInt(255), based: true});
+        expect(util.parseValueLiteral("0b1010_1010")).deep.eq({value: BigInt(170), based: true});
+        // Verilog literals
+        expect(util.parseValueLiteral("'hff")).deep.eq({value: BigInt(255), based: true});
+        expect(util.parseValueLiteral("8'b1010")).deep.eq({value: BigInt(10), based: true});
+        expect(util.parseValueLiteral("4'd7")).deep.eq({value: BigInt(7), based: false});
+        expect(util.parseValueLiteral("8'shff")).deep.eq({value: BigInt(-1), based: false});
+        // wider than 53 bits
+        const literal = util.parseValueLiteral("0x" + "f".repeat(32));
+        assert(literal);
+        if (literal) {
+            expect(literal.value.toString()).eq("340282366920938463463374607431768211455");
+        }
+        // invalid
+        expect(util.parseValueLiteral("4'hff")).eq(undefined);
+        expect(util.parseValueLiteral("'b102")).eq(undefined);
+        expect(util.parseValueLiteral("1.5")).eq(undefined);
+        expect(util.parseValueLiteral("a")).eq(undefined);
+    });
+
+    it("test type name", () => {
+        expect(util.typeName({width: 1, signed: false})).eq("logic");
+        expect(util.typeName({width: 8, signed: true})).eq("logic signed [7:0]");
+        expect(util.typeName({width: 32, signed: false, packed: [4, 8]})).eq("logic [3:0][7:0]");
+        expect(util.typeName({width: 8, signed: false, unpacked: [16]})).eq("logic [7:0] [0:15]");
+        expect(util.typeName({width: 2, signed: false, enum_name: "state_t"})).eq("state_t");
+    });
+
+    it("test format typed value", () => {
+        const state = {
+            width: 2, signed: false, enum_name: "state_t",
+            enum_members: [{name: "IDLE", value: 0}, {name: "BUSY", value: "1"}]
+        };
+        expect(util.formatTypedValue("0", state)).eq("IDLE (2'd0)");
+        expect(util.formatTypedValue("1", state, "binary")).eq("BUSY (0b01)");
+        // not a member
+        expect(util.formatTypedValue("3", state)).eq("3");
+        expect(util.formatTypedValue("255", {width: 8, signed: true}, "decimal")).eq("-1");
+        // no type information
+        expect(util.formatTypedValue("10", undefined, "hex")).eq("0xa");
+        expect(util.formatTypedValue("10", undefined)).eq("10");
+    });
+
+    it("test fit value", () => {
+        const fit = (text: string, width: number, signed: boolean) => {
+            const literal = util.parseValueLiteral(text);
+            assert(literal);
+            const value = literal ? util.fitValue(literal, width, signed) : undefined;
+            return value === undefined ? undefined : value.toString();
+        };
+        expect(fit("255", 8, false)).eq("255");
+        expect(fit("256", 8, false)).eq(undefined);
+        expect(fit("-1", 8, false)).eq(undefined);
+        expect(fit("-128", 8, true)).eq("-128");
+        expect(fit("128", 8, true)).eq(undefined);
+        // based literals are raw bits
+        expect(fit("0xff", 8, true)).eq("-1");
+        expect(fit("0x100", 8, false)).eq(undefined);
+        expect(fit("0x" + "f".repeat(16), 64, false)).eq("18446744073709551615");
+    });
+});